@@ -0,0 +1,332 @@
+/**
+ * Security audit of the effective Gemini CLI configuration
+ */
+
+import { existsSync, statSync } from 'fs';
+import { loadConfigLayers, mergeConfigLayers, getNestedValue, type ConfigLayer, type ConfigLayerName } from './merge.js';
+import { findEnvReferences, isSecretPath } from './envVars.js';
+import { looksLikeSecret } from './redact.js';
+
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+// Most severe first
+export const AUDIT_SEVERITIES: AuditSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+export interface AuditFinding {
+  // Stable identifier of the check, for allow-listing findings in scripts
+  rule: string;
+  severity: AuditSeverity;
+  message: string;
+  recommendation: string;
+  path?: string;
+  scope?: ConfigLayerName;
+  configPath?: string;
+}
+
+export interface AuditReport {
+  findings: AuditFinding[];
+  counts: Record<AuditSeverity, number>;
+  highestSeverity: AuditSeverity | null;
+  failOn: AuditSeverity;
+  passed: boolean;
+}
+
+// Shell commands that are effectively unrestricted when allowed without confirmation
+const BROAD_SHELL_PREFIXES = [
+  'bash', 'sh', 'zsh', 'fish', 'pwsh', 'powershell', 'cmd', 'sudo', 'su', 'doas', 'eval', 'exec', 'env', 'xargs',
+  'rm', 'curl', 'wget', 'python', 'python3', 'node', 'npx', 'perl', 'ruby', 'ssh', 'dd', 'chmod', 'chown',
+];
+
+// Shell tool names accepted in tools.allowed
+const SHELL_TOOL = /^(run_shell_command|ShellTool)(\((.*)\))?$/;
+
+function isTrue(value: unknown): boolean {
+  return value === true || value === 'true';
+}
+
+/**
+ * A setting that may be written at its nested path or at its legacy top-level key; the nested path wins
+ */
+function readSetting(config: Record<string, unknown>, path: string, legacyPath: string): { path: string; value: unknown } {
+  const value = getNestedValue(config, path);
+  return value !== undefined ? { path, value } : { path: legacyPath, value: getNestedValue(config, legacyPath) };
+}
+
+function objectEntries(value: unknown): Array<[string, unknown]> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? Object.entries(value) : [];
+}
+
+/**
+ * Findings for a single settings layer (user or project)
+ */
+function auditLayer(layer: ConfigLayer): AuditFinding[] {
+  const config = layer.config ?? {};
+  const findings: AuditFinding[] = [];
+  const at = { scope: layer.name, ...(layer.configPath ? { configPath: layer.configPath } : {}) };
+
+  for (const [name, server] of objectEntries(config.mcpServers)) {
+    const entry = server as Record<string, unknown>;
+
+    if (isTrue(entry.trust)) {
+      findings.push({
+        rule: 'mcp-server-trusted',
+        severity: 'high',
+        path: `mcpServers.${name}.trust`,
+        message: `MCP server "${name}" is trusted: all of its tool calls run without confirmation`,
+        recommendation: 'Remove "trust": true unless every tool of this server is safe to run unattended',
+        ...at,
+      });
+    }
+
+    for (const field of ['env', 'headers'] as const) {
+      for (const [key, value] of objectEntries(entry[field])) {
+        if (typeof value !== 'string' || value === '' || findEnvReferences(value).length > 0) {
+          continue;
+        }
+        if (isSecretPath(key) || looksLikeSecret(value)) {
+          findings.push({
+            rule: 'plaintext-secret',
+            severity: 'high',
+            path: `mcpServers.${name}.${field}.${key}`,
+            message: `MCP server "${name}" stores ${key} as a literal value in ${field}`,
+            recommendation: `Reference an environment variable instead, e.g. "${key}": "$${key.toUpperCase().replace(/[^A-Z0-9_]/g, '_')}"`,
+            ...at,
+          });
+        }
+      }
+    }
+  }
+
+  if (layer.configPath && existsSync(layer.configPath)) {
+    const mode = statSync(layer.configPath).mode;
+    if (mode & 0o002) {
+      findings.push({
+        rule: 'settings-world-writable',
+        severity: 'critical',
+        message: `${layer.configPath} is writable by every user on this machine`,
+        recommendation: `Run: chmod o-w "${layer.configPath}"`,
+        ...at,
+      });
+    } else if (mode & 0o020) {
+      findings.push({
+        rule: 'settings-group-writable',
+        severity: 'low',
+        message: `${layer.configPath} is writable by its group`,
+        recommendation: `Run: chmod g-w "${layer.configPath}" unless the group is trusted`,
+        ...at,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Classify one tools.allowed entry; returns null when it is narrow enough
+ */
+function classifyAllowedTool(entry: string): { severity: AuditSeverity; reason: string } | null {
+  const shell = SHELL_TOOL.exec(entry.trim());
+  if (!shell) {
+    return entry.includes('*') ? { severity: 'medium', reason: 'uses a wildcard' } : null;
+  }
+
+  const command = (shell[3] ?? '').trim();
+  if (!command || command === '*') {
+    return { severity: 'critical', reason: 'allows every shell command' };
+  }
+  const program = command.split(/\s+/)[0];
+  if (BROAD_SHELL_PREFIXES.includes(program) && command.split(/\s+/).length === 1) {
+    return { severity: 'high', reason: `allows any "${program}" command` };
+  }
+  return null;
+}
+
+/**
+ * Findings for the effective (merged) configuration
+ */
+function auditEffective(layers: ConfigLayer[]): AuditFinding[] {
+  const { config, provenance } = mergeConfigLayers(layers);
+  const findings: AuditFinding[] = [];
+  const sourceOf = (path: string): { scope?: ConfigLayerName; configPath?: string } => {
+    const entry = provenance.find((item) => item.path === path);
+    return entry && entry.source !== 'default'
+      ? { scope: entry.source, ...(entry.configPath ? { configPath: entry.configPath } : {}) }
+      : {};
+  };
+
+  for (const path of ['tools.autoAccept', 'autoAccept']) {
+    if (isTrue(getNestedValue(config, path))) {
+      findings.push({
+        rule: 'auto-accept',
+        severity: 'medium',
+        path,
+        message: 'Tool calls considered safe are executed without confirmation',
+        recommendation: `Set ${path} to false to confirm every tool call`,
+        ...sourceOf(path),
+      });
+    }
+  }
+
+  for (const path of ['general.defaultApprovalMode', 'tools.approvalMode', 'approvalMode']) {
+    if (getNestedValue(config, path) === 'yolo') {
+      findings.push({
+        rule: 'yolo-mode',
+        severity: 'critical',
+        path,
+        message: 'YOLO mode approves every tool call, including shell commands and file writes',
+        recommendation: `Remove ${path} or set it to "default"`,
+        ...sourceOf(path),
+      });
+    }
+  }
+
+  const sandboxPath = getNestedValue(config, 'tools.sandbox') !== undefined ? 'tools.sandbox' : 'sandbox';
+  const sandbox = getNestedValue(config, sandboxPath);
+  if (sandbox === false || sandbox === 'false') {
+    findings.push({
+      rule: 'sandbox-disabled',
+      severity: 'medium',
+      path: sandboxPath,
+      message: 'Sandboxing is explicitly disabled: tools run directly on this machine',
+      recommendation: `Set ${sandboxPath} to true (or "docker"/"podman") to isolate tool execution`,
+      ...sourceOf(sandboxPath),
+    });
+  } else if (sandbox === undefined) {
+    findings.push({
+      rule: 'sandbox-not-enabled',
+      severity: 'low',
+      path: 'tools.sandbox',
+      message: 'Sandboxing is not enabled in settings (it can still be enabled with --sandbox or GEMINI_SANDBOX)',
+      recommendation: 'Set tools.sandbox to true to isolate tool execution by default',
+    });
+  }
+
+  const allowed = getNestedValue(config, 'tools.allowed');
+  if (Array.isArray(allowed)) {
+    for (const entry of allowed.filter((item): item is string => typeof item === 'string')) {
+      const result = classifyAllowedTool(entry);
+      if (result) {
+        findings.push({
+          rule: 'broad-allowed-tool',
+          severity: result.severity,
+          path: 'tools.allowed',
+          message: `tools.allowed entry "${entry}" ${result.reason} without confirmation`,
+          recommendation: 'Allow specific commands instead, e.g. "run_shell_command(git status)"',
+          ...sourceOf('tools.allowed'),
+        });
+      }
+    }
+  }
+
+  if (getNestedValue(config, 'security.folderTrust.enabled') === false && sourceOf('security.folderTrust.enabled').scope) {
+    findings.push({
+      rule: 'folder-trust-disabled',
+      severity: 'low',
+      path: 'security.folderTrust.enabled',
+      message: 'Folder trust is disabled: project settings of any folder are applied',
+      recommendation: 'Enable security.folderTrust.enabled to review untrusted folders before loading their settings',
+      ...sourceOf('security.folderTrust.enabled'),
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Findings for project settings that grant more than the user's own settings
+ */
+function auditProjectEscalation(layers: ConfigLayer[]): AuditFinding[] {
+  const user = layers.find((layer) => layer.name === 'user')?.config ?? {};
+  const projectLayer = layers.find((layer) => layer.name === 'project');
+  const project = projectLayer?.config;
+  if (!projectLayer || !project) {
+    return [];
+  }
+
+  const findings: AuditFinding[] = [];
+  const at = { scope: 'project' as const, ...(projectLayer.configPath ? { configPath: projectLayer.configPath } : {}) };
+  const escalate = (path: string, message: string) =>
+    findings.push({
+      rule: 'project-escalation',
+      severity: 'high',
+      path,
+      message,
+      recommendation: 'Review this project setting; move it to user settings if you want it everywhere, or remove it',
+      ...at,
+    });
+
+  const autoAccept = readSetting(project, 'tools.autoAccept', 'autoAccept');
+  if (isTrue(autoAccept.value) && !isTrue(readSetting(user, 'tools.autoAccept', 'autoAccept').value)) {
+    escalate(autoAccept.path, `Project settings turn on ${autoAccept.path}, which your user settings do not`);
+  }
+
+  const sandbox = readSetting(project, 'tools.sandbox', 'sandbox');
+  const userSandbox = readSetting(user, 'tools.sandbox', 'sandbox').value;
+  if (
+    (sandbox.value === false || sandbox.value === 'false') &&
+    userSandbox !== undefined &&
+    userSandbox !== false &&
+    userSandbox !== 'false'
+  ) {
+    escalate(sandbox.path, `Project settings disable the sandbox that your user settings enable`);
+  }
+
+  if (getNestedValue(project, 'security.folderTrust.enabled') === false && getNestedValue(user, 'security.folderTrust.enabled') === true) {
+    escalate('security.folderTrust.enabled', 'Project settings disable folder trust that your user settings enable');
+  }
+
+  const userAllowed = getNestedValue(user, 'tools.allowed');
+  const projectAllowed = getNestedValue(project, 'tools.allowed');
+  if (Array.isArray(projectAllowed)) {
+    const added = projectAllowed.filter((entry) => !(Array.isArray(userAllowed) && userAllowed.includes(entry)));
+    if (added.length > 0) {
+      escalate('tools.allowed', `Project settings let these tools run without confirmation: ${added.join(', ')}`);
+    }
+  }
+
+  const userServers = objectEntries(user.mcpServers).map(([name]) => name);
+  for (const [name, server] of objectEntries(project.mcpServers)) {
+    const entry = server as Record<string, unknown>;
+    if (isTrue(entry.trust) && !isTrue(getNestedValue(user, `mcpServers.${name}.trust`))) {
+      escalate(`mcpServers.${name}.trust`, `Project settings trust MCP server "${name}"`);
+    } else if (!userServers.includes(name) && typeof entry.command === 'string') {
+      findings.push({
+        rule: 'project-mcp-server',
+        severity: 'medium',
+        path: `mcpServers.${name}`,
+        message: `Project settings launch a local MCP server "${name}" (${entry.command}) when Gemini CLI starts here`,
+        recommendation: 'Make sure you trust the command before starting Gemini CLI in this folder',
+        ...at,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Audit the user and project settings and the configuration they produce.
+ * The audit passes when no finding is at or above the failOn severity.
+ */
+export function auditConfig(failOn: AuditSeverity = 'high', projectDir?: string): AuditReport {
+  const layers = loadConfigLayers(projectDir);
+  const findings = [
+    ...layers.filter((layer) => layer.name !== 'default').flatMap(auditLayer),
+    ...auditEffective(layers),
+    ...auditProjectEscalation(layers),
+  ].sort((a, b) => AUDIT_SEVERITIES.indexOf(a.severity) - AUDIT_SEVERITIES.indexOf(b.severity));
+
+  const counts = Object.fromEntries(AUDIT_SEVERITIES.map((severity) => [severity, 0])) as Record<AuditSeverity, number>;
+  findings.forEach((finding) => counts[finding.severity]++);
+
+  const highestSeverity = findings[0]?.severity ?? null;
+  const threshold = AUDIT_SEVERITIES.indexOf(failOn);
+
+  return {
+    findings,
+    counts,
+    highestSeverity,
+    failOn,
+    passed: findings.every((finding) => AUDIT_SEVERITIES.indexOf(finding.severity) > threshold),
+  };
+}
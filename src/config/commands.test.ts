@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, existsSync, statSync, chmodSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import TOML from '@iarna/toml';
+import { buildCommandToml, createCustomCommand, listCustomCommands } from './commands.js';
+
+describe('buildCommandToml', () => {
+  it('writes a starter prompt that asks for missing arguments', () => {
+    const parsed = TOML.parse(buildCommandToml('Review the staged changes'));
+
+    expect(parsed.description).toBe('Review the staged changes');
+    expect(parsed.prompt).toBe(
+      "Review the staged changes\n\nThe user's request: {{args}}\n\n" +
+        'If no request was given, ask the user what they need before doing anything.\n'
+    );
+  });
+
+  it.each([
+    ['plain text', 'Summarize {{args}}'],
+    ['literal string delimiters', "Quote it as '''{{args}}''' and keep \\n escapes"],
+    ['basic string delimiters', 'Both """ and \'\'\' appear \\ here'],
+  ])('round-trips a prompt with %s', (_, prompt) => {
+    expect(TOML.parse(buildCommandToml('Test "quoted"', prompt))).toEqual({
+      description: 'Test "quoted"',
+      prompt: `${prompt}\n`,
+    });
+  });
+});
+
+describe('createCustomCommand', () => {
+  let root: string;
+  let project: string;
+  const savedHome = process.env.HOME;
+
+  const commandsDir = () => join(project, '.gemini', 'commands');
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'commands-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home'));
+    mkdirSync(join(project, '.git'), { recursive: true });
+    process.env.HOME = join(root, 'home');
+  });
+
+  afterEach(() => {
+    process.env.HOME = savedHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('writes a namespaced command under the scope commands directory', () => {
+    const result = createCustomCommand({ name: '/git/commit', description: 'Write a commit message', scope: 'project', projectDir: project });
+
+    expect(result.path).toBe(join(commandsDir(), 'git', 'commit.toml'));
+    expect(result.written).toBe(true);
+    expect(result.validation).toMatchObject({ usesArgs: true, errors: [], warnings: [] });
+    expect(readFileSync(result.path, 'utf-8')).toBe(result.content);
+    expect(listCustomCommands(project).map((command) => [command.name, command.scope])).toEqual([['git:commit', 'project']]);
+  });
+
+  it('refuses to replace an existing command unless asked to, keeping the file mode', () => {
+    const params = { name: 'deploy', description: 'Deploy', scope: 'project' as const, projectDir: project };
+    const { path } = createCustomCommand(params);
+    chmodSync(path, 0o600);
+
+    expect(() => createCustomCommand({ ...params, description: 'Deploy again' })).toThrow(
+      `Command file ${path} already exists; pass overwrite to replace it`
+    );
+
+    createCustomCommand({ ...params, description: 'Deploy again', overwrite: true });
+    expect(TOML.parse(readFileSync(path, 'utf-8')).description).toBe('Deploy again');
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readdirSync(commandsDir())).toEqual(['deploy.toml']);
+  });
+
+  it('does not write a dry run or a command that fails validation', () => {
+    const dryRun = createCustomCommand({ name: 'plan', description: 'Plan', scope: 'user', dryRun: true, projectDir: project });
+    const invalid = createCustomCommand({
+      name: 'status',
+      description: 'Status',
+      prompt: 'Status: !{git status --short',
+      scope: 'user',
+      projectDir: project,
+    });
+
+    expect(dryRun).toMatchObject({ path: join(root, 'home', '.gemini', 'commands', 'plan.toml'), written: false });
+    expect(invalid.written).toBe(false);
+    expect(invalid.validation.errors).toEqual(['Shell injection starting with "!{git status --short" is never closed with "}"']);
+    expect(existsSync(join(root, 'home', '.gemini'))).toBe(false);
+  });
+
+  it('rejects names that cannot be typed as a command', () => {
+    expect(() => createCustomCommand({ name: 'my command', description: 'x', scope: 'user', projectDir: project })).toThrow(
+      'Invalid command name "my command"'
+    );
+  });
+
+  it('lists a project command as shadowing the user command of the same name', () => {
+    createCustomCommand({ name: 'review', description: 'Mine', scope: 'user', projectDir: project });
+    createCustomCommand({ name: 'review', description: 'Team', scope: 'project', projectDir: project });
+    writeFileSync(join(commandsDir(), 'help.toml'), 'prompt = "Custom help"\n');
+
+    const commands = listCustomCommands(project).map((command) => [command.name, command.scope, command.warnings]);
+    expect(commands).toEqual([
+      ['help', 'project', ['No "description"; /help will show a generic description', 'Replaces the built-in /help command']],
+      ['review', 'project', [`Shadows the user command ${join(root, 'home', '.gemini', 'commands', 'review.toml')}`]],
+      ['review', 'user', [`Shadowed by the project command ${join(commandsDir(), 'review.toml')}`]],
+    ]);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Custom slash commands defined as .toml files
+ */
+
+import { readFileSync, readdirSync, existsSync, statSync, mkdirSync } from 'fs';
+import { join, dirname, relative, sep } from 'path';
+import { homedir } from 'os';
+import TOML from '@iarna/toml';
+import { resolveProjectDir, writeFileAtomic, type ConfigScope } from './loader.js';
+
+// Placeholder replaced with the text typed after the command
+export const ARGS_PLACEHOLDER = '{{args}}';
+
+const KNOWN_FIELDS = ['prompt', 'description'];
+
+// Built-in commands a custom command with the same name would replace
+const BUILT_IN_COMMANDS = [
+  'about', 'auth', 'bug', 'chat', 'clear', 'compress', 'copy', 'directory', 'docs', 'editor',
+  'extensions', 'help', 'ide', 'init', 'mcp', 'memory', 'model', 'privacy', 'quit', 'restore',
+  'settings', 'stats', 'theme', 'tools', 'vim',
+];
+
+const COMMAND_NAME = /^[A-Za-z0-9_-]+(:[A-Za-z0-9_-]+)*$/;
+
+export interface CommandValidation {
+  description?: string;
+  usesArgs: boolean;
+  shellInjections: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface CustomCommand extends CommandValidation {
+  // Invocation name without the slash; subdirectories become namespaces (git/commit.toml -> git:commit)
+  name: string;
+  scope: ConfigScope;
+  path: string;
+  // Path of the project command that replaces this one
+  shadowedBy?: string;
+}
+
+/**
+ * Get the commands directory for a scope
+ */
+export function getCommandsDir(scope: ConfigScope, projectDir?: string): string {
+  const baseDir = scope === 'user' ? homedir() : resolveProjectDir(projectDir);
+  return join(baseDir, '.gemini', 'commands');
+}
+
+/**
+ * Map a command name like "git:commit" (or "git/commit") to its file in a scope
+ */
+export function getCommandPath(name: string, scope: ConfigScope, projectDir?: string): string {
+  const normalized = name.replace(/^\//, '').replace(/\//g, ':');
+  if (!COMMAND_NAME.test(normalized)) {
+    throw new Error(
+      `Invalid command name "${name}": use letters, digits, "-" and "_", with ":" separating namespaces`
+    );
+  }
+  return join(getCommandsDir(scope, projectDir), ...normalized.split(':')) + '.toml';
+}
+
+/**
+ * Find the end of a !{...} or @{...} block, counting nested braces.
+ * Returns -1 when the block is never closed.
+ */
+function findClosingBrace(content: string, openIndex: number): number {
+  let depth = 0;
+  for (let i = openIndex; i < content.length; i++) {
+    if (content[i] === '{') {
+      depth++;
+    } else if (content[i] === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return -1;
+}
+
+/**
+ * Check the !{...} shell injections and @{...} file injections in a prompt
+ */
+function checkInjections(prompt: string, result: CommandValidation): void {
+  for (const match of prompt.matchAll(/([!@])\{/g)) {
+    const kind = match[1] === '!' ? 'Shell injection' : 'File injection';
+    const start = match.index ?? 0;
+    const end = findClosingBrace(prompt, start + 1);
+    if (end === -1) {
+      result.errors.push(`${kind} starting with "${prompt.slice(start, start + 20)}" is never closed with "}"`);
+      continue;
+    }
+
+    const body = prompt.slice(start + 2, end).trim();
+    if (!body) {
+      result.errors.push(`${kind} "${match[1]}{}" is empty`);
+    } else if (match[1] === '!') {
+      result.shellInjections.push(body);
+    } else if (body.includes(ARGS_PLACEHOLDER)) {
+      result.warnings.push(`File injection @{${body}} uses ${ARGS_PLACEHOLDER}, which is not substituted in file paths`);
+    }
+  }
+
+  if (result.shellInjections.length > 0) {
+    result.warnings.push(
+      `Runs ${result.shellInjections.length} shell command(s) when invoked; Gemini CLI asks for confirmation ` +
+        `unless they are allowed in tools.allowed`
+    );
+  }
+}
+
+/**
+ * Validate the contents of a command .toml file
+ */
+export function validateCommandToml(content: string): CommandValidation {
+  const result: CommandValidation = { usesArgs: false, shellInjections: [], errors: [], warnings: [] };
+
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = TOML.parse(content) as Record<string, unknown>;
+  } catch (error) {
+    const message = error instanceof Error ? error.message.split('\n')[0].replace(/:$/, '') : String(error);
+    result.errors.push(`Invalid TOML: ${message}`);
+    return result;
+  }
+
+  if (parsed.description !== undefined) {
+    if (typeof parsed.description === 'string') {
+      result.description = parsed.description;
+    } else {
+      result.errors.push('"description" must be a string');
+    }
+  } else {
+    result.warnings.push('No "description"; /help will show a generic description');
+  }
+
+  for (const key of Object.keys(parsed).filter((key) => !KNOWN_FIELDS.includes(key))) {
+    result.warnings.push(`Unknown field "${key}" is ignored`);
+  }
+
+  const prompt = parsed.prompt;
+  if (prompt === undefined) {
+    result.errors.push('Missing required "prompt" field');
+    return result;
+  }
+  if (typeof prompt !== 'string') {
+    result.errors.push('"prompt" must be a string');
+    return result;
+  }
+  if (!prompt.trim()) {
+    result.errors.push('"prompt" is empty');
+    return result;
+  }
+
+  result.usesArgs = prompt.includes(ARGS_PLACEHOLDER);
+  const otherCase = Array.from(new Set(prompt.match(/\{\{\s*args\s*\}\}/gi) ?? [])).filter(
+    (placeholder) => placeholder !== ARGS_PLACEHOLDER
+  );
+  if (otherCase.length > 0) {
+    result.warnings.push(
+      `${otherCase.join(', ')} is not substituted; the placeholder is case-sensitive and must be written ${ARGS_PLACEHOLDER}` +
+        (result.usesArgs ? '' : '. Arguments will be appended to the end of the prompt instead')
+    );
+  }
+
+  checkInjections(prompt, result);
+
+  return result;
+}
+
+/**
+ * Find all .toml files below a directory
+ */
+function findTomlFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of readdirSync(dir).sort()) {
+    const fullPath = join(dir, entry);
+    try {
+      if (statSync(fullPath).isDirectory()) {
+        files.push(...findTomlFiles(fullPath));
+      } else if (entry.endsWith('.toml')) {
+        files.push(fullPath);
+      }
+    } catch {
+      // Broken symlinks and unreadable entries are skipped
+    }
+  }
+  return files;
+}
+
+/**
+ * Read and validate every command in one scope
+ */
+function scanCommandsDir(scope: ConfigScope, projectDir?: string): CustomCommand[] {
+  const commandsDir = getCommandsDir(scope, projectDir);
+  if (!existsSync(commandsDir)) {
+    return [];
+  }
+
+  return findTomlFiles(commandsDir).map((path) => {
+    const name = relative(commandsDir, path).slice(0, -'.toml'.length).split(sep).join(':');
+    let validation: CommandValidation;
+    try {
+      validation = validateCommandToml(readFileSync(path, 'utf-8'));
+    } catch (error) {
+      validation = {
+        usesArgs: false,
+        shellInjections: [],
+        errors: [`Cannot read file: ${error instanceof Error ? error.message : String(error)}`],
+        warnings: [],
+      };
+    }
+
+    if (!COMMAND_NAME.test(name)) {
+      validation.warnings.push(`Command name "${name}" contains characters that are awkward to type`);
+    }
+    if (BUILT_IN_COMMANDS.includes(name)) {
+      validation.warnings.push(`Replaces the built-in /${name} command`);
+    }
+
+    return { name, scope, path, ...validation };
+  });
+}
+
+/**
+ * List custom commands from the user and project commands directories.
+ * Project commands replace user commands with the same name.
+ */
+export function listCustomCommands(projectDir?: string): CustomCommand[] {
+  const projectCommands = scanCommandsDir('project', projectDir);
+  const userCommands = scanCommandsDir('user');
+
+  for (const command of userCommands) {
+    const override = projectCommands.find((candidate) => candidate.name === command.name);
+    if (override) {
+      command.shadowedBy = override.path;
+      command.warnings.push(`Shadowed by the project command ${override.path}`);
+      override.warnings.push(`Shadows the user command ${command.path}`);
+    }
+  }
+
+  return [...projectCommands, ...userCommands];
+}
+
+/**
+ * Quote a string as a TOML multi-line string, preferring the literal form
+ */
+function tomlMultiline(value: string): string {
+  const body = value.endsWith('\n') ? value : `${value}\n`;
+  if (!body.includes("'''")) {
+    return `'''\n${body}'''`;
+  }
+  return `"""\n${body.replace(/\\/g, '\\\\').replace(/"""/g, '""\\"')}"""`;
+}
+
+/**
+ * Build the contents of a new command file.
+ * Without an explicit prompt, a starter prompt is written from the description.
+ */
+export function buildCommandToml(description: string, prompt?: string): string {
+  const body =
+    prompt ??
+    `${description}\n\nThe user's request: ${ARGS_PLACEHOLDER}\n\n` +
+      `If no request was given, ask the user what they need before doing anything.\n`;
+  return `description = ${TOML.stringify.value(description)}\nprompt = ${tomlMultiline(body)}\n`;
+}
+
+/**
+ * Write a new command file, refusing to replace an existing one unless asked
+ */
+export function createCustomCommand(params: {
+  name: string;
+  description: string;
+  prompt?: string;
+  scope: ConfigScope;
+  overwrite?: boolean;
+  dryRun?: boolean;
+  projectDir?: string;
+}): { path: string; content: string; written: boolean; validation: CommandValidation } {
+  const path = getCommandPath(params.name, params.scope, params.projectDir);
+  const content = buildCommandToml(params.description, params.prompt);
+  const validation = validateCommandToml(content);
+
+  if (existsSync(path) && !params.overwrite) {
+    throw new Error(`Command file ${path} already exists; pass overwrite to replace it`);
+  }
+  if (validation.errors.length > 0 || params.dryRun) {
+    return { path, content, written: false, validation };
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileAtomic(path, content);
+  return { path, content, written: true, validation };
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { addMemory, appendMemoryFact } from './context.js';
+
+describe('appendMemoryFact', () => {
+  it.each([
+    ['an empty file', '', '## Gemini Added Memories\n- fact\n'],
+    ['a file without a trailing newline', '# Notes', '# Notes\n\n## Gemini Added Memories\n- fact\n'],
+    ['a file with a trailing newline', '# Notes\n', '# Notes\n\n## Gemini Added Memories\n- fact\n'],
+    ['a file ending in a blank line', '# Notes\n\n', '# Notes\n\n## Gemini Added Memories\n- fact\n'],
+  ])('creates the memory section at the end of %s', (_, content, expected) => {
+    expect(appendMemoryFact(content, 'fact')).toBe(expected);
+  });
+
+  it('appends to the end of the existing section', () => {
+    expect(appendMemoryFact('## Gemini Added Memories\n- first\n', 'second')).toBe(
+      '## Gemini Added Memories\n- first\n- second\n'
+    );
+  });
+
+  it('keeps the headings that follow the section', () => {
+    const content = '# Project\n\n## Gemini Added Memories\n- first\n\n\n## Style\nUse tabs.\n';
+
+    expect(appendMemoryFact(content, 'second')).toBe(
+      '# Project\n\n## Gemini Added Memories\n- first\n- second\n\n## Style\nUse tabs.\n'
+    );
+  });
+
+  it('treats deeper headings as part of the section', () => {
+    const content = '## Gemini Added Memories\n- first\n### Detail\n- nested\n';
+
+    expect(appendMemoryFact(content, 'second')).toBe('## Gemini Added Memories\n- first\n### Detail\n- nested\n- second\n');
+  });
+});
+
+describe('addMemory', () => {
+  let root: string;
+  let project: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'context-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home'));
+    mkdirSync(join(project, '.git'), { recursive: true });
+    mkdirSync(join(project, 'packages', 'app'), { recursive: true });
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('creates the global context file for user memories', () => {
+    const result = addMemory('  - - Prefers   pnpm ', 'user', false, project);
+
+    expect(result).toMatchObject({ path: join(root, 'home', '.gemini', 'GEMINI.md'), fact: 'Prefers pnpm', created: true });
+    expect(readFileSync(result.path, 'utf-8')).toBe('## Gemini Added Memories\n- Prefers pnpm\n');
+  });
+
+  it('adds project memories to the repository root file and leaves no temporary files', () => {
+    writeFileSync(join(project, 'GEMINI.md'), '# App\n');
+
+    const result = addMemory('Tests run with vitest', 'project', false, join(project, 'packages', 'app'));
+
+    expect(result).toMatchObject({ path: join(project, 'GEMINI.md'), created: false });
+    expect(readFileSync(result.path, 'utf-8')).toBe('# App\n\n## Gemini Added Memories\n- Tests run with vitest\n');
+    expect(readdirSync(project).filter((entry) => entry.includes('.tmp-'))).toEqual([]);
+  });
+
+  it('uses the first configured context file name', () => {
+    mkdirSync(join(root, 'home', '.gemini'));
+    writeFileSync(join(root, 'home', '.gemini', 'settings.json'), JSON.stringify({ context: { fileName: ['AGENTS.md', 'GEMINI.md'] } }));
+
+    expect(addMemory('fact', 'project', true, project).path).toBe(join(project, 'AGENTS.md'));
+  });
+
+  it('does not write a dry run and refuses an empty fact', () => {
+    const result = addMemory('fact', 'project', true, project);
+
+    expect(result.content).toBe('## Gemini Added Memories\n- fact\n');
+    expect(existsSync(result.path)).toBe(false);
+    expect(() => addMemory(' - ', 'project', false, project)).toThrow('The fact to remember is empty');
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * Context (memory) file discovery and the /memory add equivalent
+ */
+
+import { readFileSync, readdirSync, existsSync, statSync, mkdirSync } from 'fs';
+import { join, dirname, resolve, isAbsolute } from 'path';
+import { homedir } from 'os';
+import { loadMergedConfig, getNestedValue } from './merge.js';
+import { listExtensions } from './extensions.js';
+import { findWorkspaceRoot, resolveProjectDir, writeFileAtomic, type ConfigScope } from './loader.js';
+
+export const DEFAULT_CONTEXT_FILE_NAME = 'GEMINI.md';
+
+// Section that /memory add appends facts to
+export const MEMORY_SECTION_HEADER = '## Gemini Added Memories';
+
+// Gemini CLI stops following @imports at this depth
+const MAX_IMPORT_DEPTH = 5;
+
+const DEFAULT_DISCOVERY_MAX_DIRS = 200;
+
+// Directories never searched for context files below the working directory
+const SKIPPED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.venv', 'venv', '__pycache__']);
+
+// An @import is "@" followed by a path with an extension, at the start of a line or after whitespace
+const IMPORT_REFERENCE = /(^|\s)@([./~]?[^\s`'"()]*\.[A-Za-z0-9]+)/g;
+
+export type ContextFileSource = 'global' | 'ancestor' | 'subdirectory' | 'extension';
+
+export interface ContextImport {
+  reference: string;
+  path: string;
+  exists: boolean;
+  size?: number;
+  error?: string;
+  imports: ContextImport[];
+}
+
+export interface ContextFile {
+  path: string;
+  source: ContextFileSource;
+  // Extension that provides the file, for extension context files
+  extension?: string;
+  size: number;
+  // Size including every successfully resolved import
+  totalSize: number;
+  imports: ContextImport[];
+}
+
+export interface ContextDiscovery {
+  directory: string;
+  projectRoot: string | null;
+  fileNames: string[];
+  files: ContextFile[];
+  totalSize: number;
+  // True when the subdirectory search hit context.discoveryMaxDirs
+  truncated: boolean;
+}
+
+/**
+ * Find the nearest ancestor directory containing .git
+ */
+export function findProjectRoot(directory: string): string | null {
+  let current = resolve(directory);
+  for (;;) {
+    if (existsSync(join(current, '.git'))) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current) {
+      return null;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Context file names from context.fileName (string or array), defaulting to GEMINI.md
+ */
+export function getContextFileNames(config: Record<string, unknown>): string[] {
+  const configured = getNestedValue(config, 'context.fileName');
+  const names = ([] as unknown[])
+    .concat(configured ?? [])
+    .filter((name): name is string => typeof name === 'string' && name.trim() !== '');
+  return names.length > 0 ? names : [DEFAULT_CONTEXT_FILE_NAME];
+}
+
+/**
+ * Remove fenced code blocks and inline code spans, where @ references are not imports
+ */
+function stripCode(content: string): string {
+  return content.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+}
+
+/**
+ * Resolve the @imports of a context file recursively
+ */
+function resolveImports(filePath: string, content: string, depth: number, seen: Set<string>): ContextImport[] {
+  const imports: ContextImport[] = [];
+
+  for (const match of stripCode(content).matchAll(IMPORT_REFERENCE)) {
+    const reference = match[2];
+    const target = reference.startsWith('~/')
+      ? join(homedir(), reference.slice(2))
+      : isAbsolute(reference)
+        ? reference
+        : resolve(dirname(filePath), reference);
+    const entry: ContextImport = { reference: `@${reference}`, path: target, exists: false, imports: [] };
+    imports.push(entry);
+
+    if (!existsSync(target) || !statSync(target).isFile()) {
+      entry.error = 'File not found';
+      continue;
+    }
+
+    entry.exists = true;
+    entry.size = statSync(target).size;
+
+    if (seen.has(target)) {
+      entry.error = 'Circular import';
+    } else if (depth >= MAX_IMPORT_DEPTH) {
+      entry.error = `Not followed beyond import depth ${MAX_IMPORT_DEPTH}`;
+    } else if (target.endsWith('.md')) {
+      seen.add(target);
+      entry.imports = resolveImports(target, readFileSync(target, 'utf-8'), depth + 1, seen);
+      seen.delete(target);
+    }
+  }
+
+  return imports;
+}
+
+function importedSize(imports: ContextImport[]): number {
+  return imports.reduce(
+    (total, entry) => total + (entry.exists && !entry.error ? (entry.size ?? 0) + importedSize(entry.imports) : 0),
+    0
+  );
+}
+
+/**
+ * Describe one context file, following its imports
+ */
+function describeContextFile(path: string, source: ContextFileSource, extension?: string): ContextFile {
+  const content = readFileSync(path, 'utf-8');
+  const size = statSync(path).size;
+  const imports = resolveImports(path, content, 0, new Set([path]));
+
+  return {
+    path,
+    source,
+    ...(extension ? { extension } : {}),
+    size,
+    totalSize: size + importedSize(imports),
+    imports,
+  };
+}
+
+/**
+ * Breadth-first search for context files below a directory
+ */
+function findInSubdirectories(root: string, fileNames: string[], maxDirs: number): { paths: string[]; truncated: boolean } {
+  const paths: string[] = [];
+  const queue: string[] = [];
+  let scanned = 0;
+
+  // The root itself is covered by the ancestor search
+  const enqueueChildren = (dir: string) => {
+    try {
+      for (const entry of readdirSync(dir, { withFileTypes: true })) {
+        if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+          queue.push(join(dir, entry.name));
+        }
+      }
+    } catch {
+      // Unreadable directories are skipped
+    }
+  };
+  enqueueChildren(root);
+
+  while (queue.length > 0) {
+    if (scanned >= maxDirs) {
+      return { paths, truncated: true };
+    }
+    const dir = queue.shift() as string;
+    scanned++;
+
+    for (const name of fileNames) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate) && statSync(candidate).isFile()) {
+        paths.push(candidate);
+      }
+    }
+    enqueueChildren(dir);
+  }
+
+  return { paths, truncated: false };
+}
+
+/**
+ * Find the context files Gemini CLI would load when started in a directory, in load order:
+ * the global file in ~/.gemini, files from the project root (or home) down to the directory,
+ * files in subdirectories, then context files of active extensions.
+ */
+export function discoverContextFiles(directory?: string): ContextDiscovery {
+  const start = directory ? resolve(directory) : resolveProjectDir();
+  const merged = loadMergedConfig(findWorkspaceRoot(start)).config;
+  const fileNames = getContextFileNames(merged);
+  const maxDirs = Number(getNestedValue(merged, 'context.discoveryMaxDirs') ?? DEFAULT_DISCOVERY_MAX_DIRS);
+  const projectRoot = findProjectRoot(start);
+  const globalDir = join(homedir(), '.gemini');
+
+  const files: ContextFile[] = [];
+  const seen = new Set<string>();
+  const add = (path: string, source: ContextFileSource, extension?: string) => {
+    if (!seen.has(path) && existsSync(path) && statSync(path).isFile()) {
+      seen.add(path);
+      files.push(describeContextFile(path, source, extension));
+    }
+  };
+
+  for (const name of fileNames) {
+    add(join(globalDir, name), 'global');
+  }
+
+  // Walk up to the project root, or to the home directory outside a repository
+  const stopDir = projectRoot ?? homedir();
+  const ancestors: string[] = [];
+  for (let current = start; ; current = dirname(current)) {
+    ancestors.unshift(current);
+    if (current === stopDir || dirname(current) === current) {
+      break;
+    }
+  }
+  for (const dir of ancestors) {
+    for (const name of fileNames) {
+      add(join(dir, name), 'ancestor');
+    }
+  }
+
+  const below = findInSubdirectories(start, fileNames, maxDirs);
+  for (const path of below.paths) {
+    add(path, 'subdirectory');
+  }
+
+  for (const extension of listExtensions(start).filter((ext) => ext.active)) {
+    for (const file of extension.contextFiles.filter((file) => file.exists)) {
+      add(join(extension.path, file.name), 'extension', extension.name);
+    }
+  }
+
+  return {
+    directory: start,
+    projectRoot,
+    fileNames,
+    files,
+    totalSize: files.reduce((total, file) => total + file.totalSize, 0),
+    truncated: below.truncated,
+  };
+}
+
+/**
+ * Get the context file /memory add writes to for a scope.
+ * Project memories go to the repository root, or the directory itself outside a repository.
+ */
+export function getMemoryFilePath(scope: ConfigScope, projectDir?: string): string {
+  const directory = resolveProjectDir(projectDir);
+  const fileName = getContextFileNames(loadMergedConfig(directory).config)[0];
+  const baseDir = scope === 'user' ? join(homedir(), '.gemini') : (findProjectRoot(directory) ?? directory);
+  return join(baseDir, fileName);
+}
+
+/**
+ * Insert a fact as a bullet at the end of the memory section, creating the section if needed
+ */
+export function appendMemoryFact(content: string, fact: string): string {
+  const item = `- ${fact}`;
+  const headerIndex = content.indexOf(MEMORY_SECTION_HEADER);
+
+  if (headerIndex === -1) {
+    const separator = content.length === 0 ? '' : content.endsWith('\n\n') ? '' : content.endsWith('\n') ? '\n' : '\n\n';
+    return `${content}${separator}${MEMORY_SECTION_HEADER}\n${item}\n`;
+  }
+
+  const sectionStart = headerIndex + MEMORY_SECTION_HEADER.length;
+  const nextHeading = content.slice(sectionStart).search(/\n#{1,2} /);
+  const sectionEnd = nextHeading === -1 ? content.length : sectionStart + nextHeading;
+  const section = content.slice(sectionStart, sectionEnd).replace(/\s+$/, '');
+
+  return `${content.slice(0, sectionStart)}${section}\n${item}\n${content.slice(sectionEnd).replace(/^\n+/, '\n')}`;
+}
+
+/**
+ * Add a fact to the memory section of the global or project context file, like /memory add
+ */
+export function addMemory(
+  fact: string,
+  scope: ConfigScope,
+  dryRun = false,
+  projectDir?: string
+): { path: string; fact: string; created: boolean; content: string } {
+  // Facts are single bullet items; leading list markers are dropped like the CLI does
+  const normalized = fact.replace(/\s+/g, ' ').trim().replace(/^(-+\s*)+/, '').trim();
+  if (!normalized) {
+    throw new Error('The fact to remember is empty');
+  }
+
+  const path = getMemoryFilePath(scope, projectDir);
+  const created = !existsSync(path);
+  const content = appendMemoryFact(created ? '' : readFileSync(path, 'utf-8'), normalized);
+
+  if (!dryRun) {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileAtomic(path, content);
+  }
+
+  return { path, fact: normalized, created, content };
+}
@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { diffConfigs, summarizeDiff, stableStringify, unifiedDiff } from './diff.js';
+import { backupConfig } from './loader.js';
+import { diffGeminiConfig } from '../tools/configDiff.js';
+
+describe('diffConfigs', () => {
+  it('lists added, removed and changed leaves in path order', () => {
+    const changes = diffConfigs(
+      { ui: { theme: 'Default', hideTips: true }, tools: { allowed: ['a'] } },
+      { ui: { theme: 'GitHub' }, tools: { allowed: ['a', 'b'] }, general: { vimMode: true } }
+    );
+
+    expect(changes).toEqual([
+      { path: 'general.vimMode', oldValue: undefined, newValue: true },
+      { path: 'tools.allowed', oldValue: ['a'], newValue: ['a', 'b'] },
+      { path: 'ui.hideTips', oldValue: true, newValue: undefined },
+      { path: 'ui.theme', oldValue: 'Default', newValue: 'GitHub' },
+    ]);
+    expect(summarizeDiff(changes)).toEqual({
+      added: 1,
+      removed: 1,
+      changed: 2,
+      paths: ['general.vimMode', 'tools.allowed', 'ui.hideTips', 'ui.theme'],
+    });
+  });
+
+  it('treats a missing config as empty', () => {
+    expect(diffConfigs(null, { ui: { theme: 'GitHub' } })).toEqual([
+      { path: 'ui.theme', oldValue: undefined, newValue: 'GitHub' },
+    ]);
+    expect(diffConfigs({ ui: { theme: 'GitHub' } }, { ui: { theme: 'GitHub' } })).toEqual([]);
+  });
+});
+
+describe('unifiedDiff', () => {
+  it('sorts keys so reordered settings do not show up as changes', () => {
+    const from = stableStringify({ ui: { theme: 'GitHub', hideTips: true }, general: { vimMode: false } });
+    const to = stableStringify({ general: { vimMode: false }, ui: { hideTips: true, theme: 'GitHub' } });
+
+    expect(from).toBe(to);
+    expect(unifiedDiff(from, to, 'a', 'b')).toBe('');
+  });
+
+  it('marks changed lines with their context', () => {
+    const diff = unifiedDiff(
+      stableStringify({ ui: { hideTips: true, theme: 'Default' } }),
+      stableStringify({ ui: { hideTips: true, theme: 'GitHub' } }),
+      'before.json',
+      'after.json'
+    );
+
+    expect(diff).toBe(
+      [
+        '--- before.json',
+        '+++ after.json',
+        '@@ -1,6 +1,6 @@',
+        ' {',
+        '   "ui": {',
+        '     "hideTips": true,',
+        '-    "theme": "Default"',
+        '+    "theme": "GitHub"',
+        '   }',
+        ' }',
+        '',
+      ].join('\n')
+    );
+  });
+});
+
+describe('diffGeminiConfig', () => {
+  let root: string;
+  let project: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const userSettings = () => join(root, 'home', '.gemini', 'settings.json');
+  type Source = Parameters<typeof diffGeminiConfig>[0]['from'];
+  const diff = async (from: Record<string, unknown>, to: Record<string, unknown>) =>
+    (await diffGeminiConfig({ from: from as Source, to: to as Source, projectDir: project })) as {
+      structuredContent?: Record<string, any>;
+      content: Array<{ text: string }>;
+      isError?: boolean;
+    };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'diff-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(project, '.gemini'), { recursive: true });
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+    writeFileSync(userSettings(), JSON.stringify({ ui: { theme: 'GitHub' }, general: { vimMode: true } }));
+    writeFileSync(join(project, '.gemini', 'settings.json'), JSON.stringify({ ui: { theme: 'Dracula' } }));
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('compares the user and project files', async () => {
+    const result = await diff({ type: 'user' }, { type: 'project' });
+
+    expect(result.structuredContent).toMatchObject({
+      from: userSettings(),
+      to: join(project, '.gemini', 'settings.json'),
+      changes: [
+        { path: 'general.vimMode', oldValue: true },
+        { path: 'ui.theme', oldValue: 'GitHub', newValue: 'Dracula' },
+      ],
+      summary: { added: 0, removed: 1, changed: 1 },
+    });
+  });
+
+  it('previews proposed changes without writing them', async () => {
+    const result = await diff(
+      { type: 'user' },
+      { type: 'proposed', scope: 'user', changes: [{ path: 'general.vimMode', operation: 'remove' }, { path: 'ui.hideTips', value: true }] }
+    );
+
+    expect(result.structuredContent?.changes).toEqual([
+      { path: 'general.vimMode', oldValue: true },
+      { path: 'ui.hideTips', newValue: true },
+    ]);
+    expect(result.structuredContent?.to).toBe(`${userSettings()} (proposed)`);
+  });
+
+  it('compares a backup with the current file', async () => {
+    const backupPath = backupConfig('user')!;
+    writeFileSync(userSettings(), JSON.stringify({ ui: { theme: 'Default' }, general: { vimMode: true } }));
+
+    const result = await diff({ type: 'backup', scope: 'user', backupPath }, { type: 'user' });
+
+    expect(result.structuredContent?.changes).toEqual([{ path: 'ui.theme', oldValue: 'GitHub', newValue: 'Default' }]);
+  });
+
+  it('includes the system settings in the merged configuration', async () => {
+    writeFileSync(join(root, 'system-settings.json'), JSON.stringify({ ui: { theme: 'Corporate' } }));
+
+    const result = await diff({ type: 'project' }, { type: 'merged' });
+
+    expect(result.structuredContent?.changes).toContainEqual({ path: 'ui.theme', oldValue: 'Dracula', newValue: 'Corporate' });
+  });
+
+  it('reports invalid sources as errors', async () => {
+    const invalid = await diff({ type: 'user' }, { type: 'proposed', changes: [{ path: 'general.vimMode', value: 'sometimes' }] });
+    const missing = await diff({ type: 'backup' }, { type: 'user' });
+
+    expect(invalid.isError).toBe(true);
+    expect(invalid.content[0].text).toContain('Invalid proposed changes');
+    expect(missing.content[0].text).toContain('backupPath is required for a \\"backup\\" source');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Structural comparison of configuration objects
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { flattenConfig } from './merge.js';
+
+export interface ConfigDiffEntry {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface ConfigDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+  paths: string[];
+}
+
+/**
+ * Compute the leaf-level differences between two configuration objects
+ */
+export function diffConfigs(
+  oldConfig: Record<string, unknown> | null,
+  newConfig: Record<string, unknown> | null
+): ConfigDiffEntry[] {
+  const oldLeaves = flattenConfig(oldConfig ?? {});
+  const newLeaves = flattenConfig(newConfig ?? {});
+  const paths = new Set([...oldLeaves.keys(), ...newLeaves.keys()]);
+  const entries: ConfigDiffEntry[] = [];
+
+  for (const path of Array.from(paths).sort()) {
+    const oldValue = oldLeaves.get(path);
+    const newValue = newLeaves.get(path);
+
+    if (!isDeepStrictEqual(oldValue, newValue)) {
+      entries.push({ path, oldValue, newValue });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Summarize a list of differences
+ */
+export function summarizeDiff(entries: ConfigDiffEntry[]): ConfigDiffSummary {
+  return {
+    added: entries.filter((e) => e.oldValue === undefined).length,
+    removed: entries.filter((e) => e.newValue === undefined).length,
+    changed: entries.filter((e) => e.oldValue !== undefined && e.newValue !== undefined).length,
+    paths: entries.map((e) => e.path),
+  };
+}
+
+// Beyond this many lines per side the text diff falls back to replacing the whole document
+const MAX_DIFF_LINES = 5_000;
+
+/**
+ * Serialize a configuration with object keys sorted, so equal settings line up in a text diff
+ */
+export function stableStringify(value: unknown): string {
+  const sortKeys = (item: unknown): unknown => {
+    if (Array.isArray(item)) {
+      return item.map(sortKeys);
+    }
+    if (typeof item === 'object' && item !== null) {
+      return Object.fromEntries(
+        Object.keys(item)
+          .sort()
+          .map((key) => [key, sortKeys((item as Record<string, unknown>)[key])])
+      );
+    }
+    return item;
+  };
+  return JSON.stringify(sortKeys(value ?? {}), null, 2) + '\n';
+}
+
+type DiffOp = { type: ' ' | '-' | '+'; line: string };
+
+/**
+ * Line-level edit script based on the longest common subsequence
+ */
+function diffLines(oldLines: string[], newLines: string[]): DiffOp[] {
+  if (oldLines.length > MAX_DIFF_LINES || newLines.length > MAX_DIFF_LINES) {
+    return [
+      ...oldLines.map((line): DiffOp => ({ type: '-', line })),
+      ...newLines.map((line): DiffOp => ({ type: '+', line })),
+    ];
+  }
+
+  const rows = oldLines.length + 1;
+  const cols = newLines.length + 1;
+  const lcs = new Uint32Array(rows * cols);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * cols + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * cols + j + 1] + 1
+          : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: ' ', line: oldLines[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+      ops.push({ type: '-', line: oldLines[i++] });
+    } else {
+      ops.push({ type: '+', line: newLines[j++] });
+    }
+  }
+  while (i < oldLines.length) ops.push({ type: '-', line: oldLines[i++] });
+  while (j < newLines.length) ops.push({ type: '+', line: newLines[j++] });
+
+  return ops;
+}
+
+/**
+ * Produce a unified diff between two texts. Returns an empty string when they are equal.
+ */
+export function unifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string, context = 3): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const split = (text: string) => (text === '' ? [] : text.replace(/\n$/, '').split('\n'));
+  const ops = diffLines(split(oldText), split(newText));
+
+  // Group changes closer than 2 * context lines into the same hunk
+  const hunks: Array<[number, number]> = [];
+  ops.forEach((op, index) => {
+    if (op.type === ' ') return;
+    const last = hunks[hunks.length - 1];
+    if (last && index - last[1] <= context * 2) {
+      last[1] = index + 1;
+    } else {
+      hunks.push([index, index + 1]);
+    }
+  });
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const [firstChange, lastChange] of hunks) {
+    const start = Math.max(0, firstChange - context);
+    const end = Math.min(ops.length, lastChange + context);
+    const before = ops.slice(0, start);
+    const hunk = ops.slice(start, end);
+    const oldStart = before.filter((op) => op.type !== '+').length;
+    const newStart = before.filter((op) => op.type !== '-').length;
+    const oldCount = hunk.filter((op) => op.type !== '+').length;
+    const newCount = hunk.filter((op) => op.type !== '-').length;
+
+    // Empty ranges point at the line before them, as in GNU diff
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart : oldStart + 1},${oldCount} +${newCount === 0 ? newStart : newStart + 1},${newCount} @@`
+    );
+    output.push(...hunk.map((op) => `${op.type}${op.line}`));
+  }
+
+  return output.join('\n') + '\n';
+}
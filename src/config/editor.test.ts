@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { applyChangesToConfig, applyConfigChanges } from './editor.js';
+import { updateGeminiMcpServer } from '../tools/mcpServers.js';
+
+const STDIO = { mcpServers: { foo: { command: 'npx', args: ['-y', 'foo-server'] } } };
+
+describe('nested edits of MCP server entries', () => {
+  it.each([
+    ['mcpServers.foo.args', 'set', ['--verbose']],
+    ['mcpServers.foo.env.API_KEY', 'set', '$API_KEY'],
+    ['mcpServers.foo.timeout', 'set', 30000],
+    ['mcpServers.foo.args', 'remove', undefined],
+  ] as const)('accepts %s (%s)', (path, operation, value) => {
+    expect(applyChangesToConfig(STDIO, [{ path, operation, value }]).errors).toEqual([]);
+  });
+
+  it.each([
+    ['mcpServers.foo.url', 'set', 'http://localhost:8080/sse', 'exactly one of command, url or httpUrl'],
+    ['mcpServers.foo.args', 'set', 42, 'args'],
+    ['mcpServers.foo.headers', 'set', { Authorization: 'Bearer $TOKEN' }, 'headers only apply to remote servers'],
+    ['mcpServers.foo.command', 'remove', undefined, 'exactly one of command, url or httpUrl is required (found none)'],
+  ] as const)('rejects %s (%s) that breaks the server entry', (path, operation, value, message) => {
+    const { errors } = applyChangesToConfig(STDIO, [{ path, operation, value }]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toContain('Invalid value for mcpServers.foo');
+    expect(errors[0]).toContain(message);
+  });
+
+  it('checks the entry once all changes of a batch are applied', () => {
+    const { errors } = applyChangesToConfig(STDIO, [
+      { path: 'mcpServers.foo.command', operation: 'remove', value: undefined },
+      { path: 'mcpServers.foo.args', operation: 'remove', value: undefined },
+      { path: 'mcpServers.foo.url', operation: 'set', value: 'http://localhost:8080/sse' },
+    ]);
+    expect(errors).toEqual([]);
+  });
+
+  it('rejects the same edits when saving', async () => {
+    const root = mkdtempSync(join(tmpdir(), 'editor-test-'));
+    const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+    try {
+      mkdirSync(join(root, '.gemini'));
+      mkdirSync(join(root, 'project', '.git'), { recursive: true });
+      const settingsPath = join(root, '.gemini', 'settings.json');
+      writeFileSync(settingsPath, JSON.stringify(STDIO, null, 2));
+      process.env.HOME = root;
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+
+      const result = await applyConfigChanges(
+        [{ path: 'mcpServers.foo.url', operation: 'set', value: 'http://localhost:8080/sse' }],
+        'user',
+        false,
+        join(root, 'project')
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.preview).toContain('exactly one of command, url or httpUrl');
+      expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual(STDIO);
+    } finally {
+      process.env.HOME = saved.HOME;
+      if (saved.system === undefined) {
+        delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+      } else {
+        process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+      }
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('read-modify-write edits', () => {
+  let root: string;
+  let project: string;
+  let settingsPath: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const readSettings = () => JSON.parse(readFileSync(settingsPath, 'utf-8'));
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'editor-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, '.gemini'));
+    mkdirSync(join(project, '.git'), { recursive: true });
+    settingsPath = join(root, '.gemini', 'settings.json');
+    writeFileSync(settingsPath, JSON.stringify(STDIO, null, 2));
+    process.env.HOME = root;
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('builds changes from the file as read under the write lock', async () => {
+    const append = (dir: string) =>
+      applyConfigChanges(
+        (config) => {
+          const current = (config?.context as { includeDirectories?: string[] } | undefined)?.includeDirectories ?? [];
+          return [{ path: 'context.includeDirectories', operation: 'set', value: [...current, dir] }];
+        },
+        'user',
+        false,
+        project
+      );
+
+    const results = await Promise.all([append('/a'), append('/b'), append('/c')]);
+
+    expect(results.map((result) => result.success)).toEqual([true, true, true]);
+    expect(readSettings().context.includeDirectories).toEqual(['/a', '/b', '/c']);
+  });
+
+  it('returns the result of a builder that refuses the edit without saving', async () => {
+    const result = await applyConfigChanges(
+      () => ({ success: false, changes: [], configPath: '', preview: 'Error: nope', warnings: ['nope'] }),
+      'user',
+      false,
+      project
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.warnings).toEqual(['nope']);
+    expect(readSettings()).toEqual(STDIO);
+  });
+
+  it('keeps both of two concurrent MCP server updates', async () => {
+    await Promise.all([
+      updateGeminiMcpServer({ name: 'foo', scope: 'user', projectDir: project, timeout: 5000 }),
+      updateGeminiMcpServer({ name: 'foo', scope: 'user', projectDir: project, description: 'Foo tools' }),
+    ]);
+
+    expect(readSettings().mcpServers.foo).toEqual({ ...STDIO.mcpServers.foo, timeout: 5000, description: 'Foo tools' });
+  });
+});
+
+describe('edits overridden by system settings', () => {
+  let root: string;
+  let project: string;
+  let settingsPath: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'editor-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, '.gemini'));
+    mkdirSync(join(project, '.gemini'), { recursive: true });
+    mkdirSync(join(root, 'system'));
+    settingsPath = join(root, '.gemini', 'settings.json');
+    writeFileSync(settingsPath, JSON.stringify({ ui: { theme: 'GitHub' } }, null, 2));
+    writeFileSync(join(root, 'system', 'settings.json'), JSON.stringify({ ui: { theme: 'Corporate' } }));
+    process.env.HOME = root;
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system', 'settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('refuses to set a value system settings enforce and leaves the file alone', async () => {
+    const result = await applyConfigChanges([{ path: 'ui.theme', operation: 'set', value: 'Dracula' }], 'user', false, project);
+
+    expect(result.success).toBe(false);
+    expect(result.warnings).toEqual([
+      `ui.theme is enforced as "Corporate" by system settings (${join(root, 'system', 'settings.json')})`,
+      'System settings can only be changed by an administrator',
+    ]);
+    expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual({ ui: { theme: 'GitHub' } });
+  });
+
+  it('still removes an overridden value and edits settings the system leaves alone', async () => {
+    writeFileSync(join(project, '.gemini', 'settings.json'), '{ "ui": ');
+
+    const result = await applyConfigChanges(
+      [
+        { path: 'ui.theme', operation: 'remove', value: undefined },
+        { path: 'general.vimMode', operation: 'set', value: true },
+      ],
+      'user',
+      false,
+      project
+    );
+
+    expect(result.success).toBe(true);
+    expect(JSON.parse(readFileSync(settingsPath, 'utf-8'))).toEqual({ ui: {}, general: { vimMode: true } });
+  });
+});
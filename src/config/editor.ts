@@ -2,8 +2,22 @@
  * Configuration editor with validation
  */
 
-import { loadConfig, saveConfig, backupConfig, getConfigPath, type ConfigScope } from './loader.js';
+import { isDeepStrictEqual } from 'util';
+import {
+  saveConfig,
+  backupConfig,
+  getConfigPath,
+  readConfigSnapshot,
+  type ConfigSnapshot,
+  withConfigWriteLock,
+  type ConfigScope,
+} from './loader.js';
 import { parseConfigInstruction, type ConfigChange } from './parser.js';
+import { getSettingWarnings, validateSettingValue, findSchemaAncestor } from './registry.js';
+import { getLegacyShadowWarnings } from './migration.js';
+import { appendJournalEntry, getHistoryStacks } from './journal.js';
+import { getNestedValue, findSystemOverrides, type SettingProvenance } from './merge.js';
+import { getInterpolationWarnings } from './envVars.js';
 import { logger } from '../utils/logger.js';
 
 export interface ConfigEditResult {
@@ -17,6 +31,19 @@ export interface ConfigEditResult {
   preview: string;
   warnings: string[];
   backupPath?: string;
+  journalId?: string;
+}
+
+export interface ConfigHistoryConflict {
+  path: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+export interface ConfigHistoryResult extends ConfigEditResult {
+  entryId?: string;
+  instruction?: string;
+  conflicts: ConfigHistoryConflict[];
 }
 
 /**
@@ -32,14 +59,20 @@ function applyChange(
   // Navigate to the parent object
   for (let i = 0; i < pathParts.length - 1; i++) {
     const part = pathParts[i];
-    if (!(part in current)) {
+    if (!(part in current) && change.operation === 'remove') {
+      // Nothing to remove; don't create empty parent objects
+      return { oldValue: undefined, newValue: undefined };
+    } else if (!(part in current)) {
       current[part] = {};
+    } else if (typeof current[part] !== 'object' || current[part] === null || Array.isArray(current[part])) {
+      throw new Error(`Cannot apply ${change.path}: ${pathParts.slice(0, i + 1).join('.')} is not an object`);
     }
     current = current[part];
   }
 
   const finalKey = pathParts[pathParts.length - 1];
-  const oldValue = current[finalKey];
+  // Clone so in-place operations (e.g. array push) don't alter the reported old value
+  const oldValue = structuredClone(current[finalKey]);
 
   // Apply the operation
   switch (change.operation) {
@@ -69,7 +102,7 @@ function applyChange(
       break;
   }
 
-  return { oldValue, newValue: current[finalKey] };
+  return { oldValue, newValue: structuredClone(current[finalKey]) };
 }
 
 /**
@@ -84,8 +117,12 @@ function generatePreview(
     const oldStr = JSON.stringify(change.oldValue);
     const newStr = JSON.stringify(change.newValue);
 
-    if (change.oldValue === undefined) {
+    if (change.oldValue === undefined && change.newValue === undefined) {
+      lines.push(`✓ ${change.path} is not set (already uses its default)`);
+    } else if (change.oldValue === undefined) {
       lines.push(`✓ Add ${change.path} = ${newStr}`);
+    } else if (change.newValue === undefined) {
+      lines.push(`✓ Remove ${change.path} (was ${oldStr})`);
     } else {
       lines.push(`✓ Update ${change.path}: ${oldStr} → ${newStr}`);
     }
@@ -95,34 +132,234 @@ function generatePreview(
 }
 
 /**
- * Validate configuration changes and generate warnings
+ * Validate configuration changes against the settings registry, coercing values where possible
  */
-function validateChanges(changes: ConfigChange[]): string[] {
-  const warnings: string[] = [];
+function normalizeChanges(changes: ConfigChange[]): { changes: ConfigChange[]; errors: string[] } {
+  const normalized: ConfigChange[] = [];
+  const errors: string[] = [];
 
   for (const change of changes) {
-    // Warn about experimental settings
-    if (change.path.startsWith('experimental.')) {
-      warnings.push(`Setting ${change.path} is experimental and may change in future versions`);
+    if (change.operation !== 'set') {
+      normalized.push(change);
+      continue;
     }
 
-    // Warn about security-sensitive settings
-    if (change.path.includes('trust') || change.path.includes('autoAccept')) {
-      warnings.push(`Setting ${change.path} has security implications`);
+    const result = validateSettingValue(change.path, change.value);
+    if (result.success) {
+      normalized.push({ ...change, value: result.value });
+    } else {
+      errors.push(result.error);
     }
+  }
+
+  return { changes: normalized, errors };
+}
+
+/**
+ * Validate the whole structured values (e.g. one MCP server entry) that changed paths are nested in,
+ * since rules like "exactly one transport" span fields that can be edited one at a time
+ */
+function validateContainingValues(config: Record<string, unknown>, paths: string[]): string[] {
+  const ancestors = new Set(paths.map(findSchemaAncestor).filter((path): path is string => path !== undefined));
+
+  return Array.from(ancestors).flatMap((path) => {
+    const value = getNestedValue(config, path);
+    if (value === undefined) {
+      return [];
+    }
+    const validation = validateSettingValue(path, value);
+    return validation.success ? [] : [validation.error];
+  });
+}
+
+/**
+ * Generate warnings for configuration changes from the settings registry metadata
+ */
+function validateChanges(changes: ConfigChange[]): string[] {
+  const warnings = changes.flatMap((change) => getSettingWarnings(change.path));
+  return Array.from(new Set(warnings));
+}
+
+/**
+ * Record an applied edit in the change journal.
+ * Journal failures are logged but never fail the edit itself.
+ */
+function recordInJournal(entry: Parameters<typeof appendJournalEntry>[0]): string | undefined {
+  try {
+    return appendJournalEntry(entry).id;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`Failed to record change in journal: ${message}`);
+    return undefined;
+  }
+}
 
-    // Warn about sandbox changes
-    if (change.path === 'tools.sandbox') {
-      warnings.push('Changing sandbox settings requires restarting Gemini CLI');
+/**
+ * Apply changes to a copy of a configuration without saving anything.
+ * Values are validated and coerced the same way an edit would.
+ */
+export function applyChangesToConfig(
+  config: Record<string, unknown> | null,
+  requestedChanges: ConfigChange[]
+): { config: Record<string, unknown>; errors: string[] } {
+  const { changes, errors } = normalizeChanges(requestedChanges);
+  const newConfig = structuredClone(config ?? {});
+
+  if (errors.length === 0) {
+    for (const change of changes) {
+      applyChange(newConfig, change);
     }
+    errors.push(...validateContainingValues(newConfig, changes.map((change) => change.path)));
+  }
+
+  return { config: newConfig, errors };
+}
+
+/**
+ * Build the result returned when changes fail registry validation
+ */
+function invalidChangesResult(errors: string[]): ConfigEditResult {
+  logger.warn(`Rejected invalid config changes: ${errors.join('; ')}`);
+
+  return {
+    success: false,
+    changes: [],
+    configPath: '',
+    preview: `Invalid configuration value:\n${errors.map((e) => `✗ ${e}`).join('\n')}`,
+    warnings: errors,
+  };
+}
+
+/**
+ * Build the result returned when system settings override the requested changes
+ */
+function systemOverrideResult(overrides: SettingProvenance[]): ConfigEditResult {
+  const reasons = overrides.map(
+    (entry) => `${entry.path} is enforced as ${JSON.stringify(entry.value)} by system settings (${entry.configPath})`
+  );
+  logger.warn(`Rejected config changes overridden by system settings: ${overrides.map((entry) => entry.path).join(', ')}`);
+
+  return {
+    success: false,
+    changes: [],
+    configPath: '',
+    preview: [
+      'No changes were applied: system settings override them, so they would have no effect.',
+      ...reasons.map((reason) => `✗ ${reason}`),
+    ].join('\n'),
+    warnings: [...reasons, 'System settings can only be changed by an administrator'],
+  };
+}
+
+/**
+ * Validate, apply and save a list of changes to a settings file.
+ * Changes that a system settings file overrides are refused, since they would have no effect.
+ * Shared by the natural language and structured editing paths.
+ */
+function commitChanges(
+  requestedChanges: ConfigChange[],
+  scope: ConfigScope,
+  dryRun: boolean,
+  projectDir: string | undefined,
+  instruction: string,
+  extraWarnings: string[] = [],
+  snapshot: ConfigSnapshot = readConfigSnapshot(scope, projectDir)
+): ConfigEditResult {
+  // Validate values against the settings registry
+  const { changes, errors } = normalizeChanges(requestedChanges);
+
+  if (errors.length > 0) {
+    return invalidChangesResult(errors);
+  }
 
-    // Warn about model changes
-    if (change.path.startsWith('model.')) {
-      warnings.push('Model changes will apply to new conversations');
+  // Start from the existing config (or an empty one); the snapshot detects concurrent edits on save
+  let config = snapshot.config;
+  if (!config) {
+    config = {};
+    logger.info(`Creating new ${scope} configuration`);
+  }
+
+  // Create a working copy
+  const newConfig = JSON.parse(JSON.stringify(config));
+
+  // Apply changes
+  const appliedChanges: Array<{ path: string; oldValue: unknown; newValue: unknown }> = [];
+
+  for (const change of changes) {
+    const result = applyChange(newConfig, change);
+    appliedChanges.push({
+      path: change.path,
+      oldValue: result.oldValue,
+      newValue: result.newValue,
+    });
+
+    if (change.operation !== 'remove') {
+      const validation = validateSettingValue(change.path, result.newValue);
+      if (!validation.success) {
+        errors.push(validation.error);
+      }
     }
   }
+  errors.push(...validateContainingValues(newConfig, changes.map((change) => change.path)));
+
+  if (errors.length > 0) {
+    return invalidChangesResult(errors);
+  }
+
+  // Removing an overridden value is harmless; setting one would silently do nothing
+  const overrides = findSystemOverrides(
+    scope,
+    newConfig,
+    changes.filter((change) => change.operation !== 'remove').map((change) => change.path),
+    projectDir
+  );
+  if (overrides.length > 0) {
+    return systemOverrideResult(overrides);
+  }
+
+  // Generate preview
+  const preview = generatePreview(appliedChanges);
+
+  // Validate and collect warnings
+  const warnings = [
+    ...extraWarnings,
+    ...validateChanges(changes),
+    ...appliedChanges.flatMap((c) => getInterpolationWarnings(c.path, c.oldValue, c.newValue)),
+    ...getLegacyShadowWarnings(newConfig, changes),
+  ];
+
+  // If dry run, don't save
+  if (dryRun) {
+    logger.info('Dry run - changes not saved');
+    return {
+      success: true,
+      changes: appliedChanges,
+      configPath: '',
+      preview,
+      warnings: [...warnings, 'DRY RUN: Changes not saved'],
+    };
+  }
+
+  // Create backup before saving
+  const backupPath = backupConfig(scope, projectDir);
+
+  // Save the new configuration (aborts if the file changed since it was read)
+  saveConfig(newConfig, scope, projectDir, snapshot);
 
-  return warnings;
+  logger.info(`Successfully updated ${scope} configuration`);
+
+  const configPath = getConfigPath(scope, projectDir);
+  const journalId = recordInJournal({ type: 'edit', scope, configPath, instruction, changes: appliedChanges });
+
+  return {
+    success: true,
+    changes: appliedChanges,
+    configPath,
+    preview,
+    warnings,
+    ...(backupPath ? { backupPath } : {}),
+    ...(journalId ? { journalId } : {}),
+  };
 }
 
 /**
@@ -137,84 +374,258 @@ export async function editConfig(
   try {
     logger.info(`Editing ${scope} config: "${instruction}" (dryRun: ${dryRun})`);
 
-    // Parse the instruction
-    const changes = parseConfigInstruction(instruction);
+    // Parse the instruction (may contain several clauses)
+    const parsed = parseConfigInstruction(instruction);
 
-    if (changes.length === 0) {
+    if (parsed.changes.length === 0) {
       return {
         success: false,
         changes: [],
         configPath: '',
         preview: 'Could not parse instruction. Please rephrase or specify the exact setting path.',
         warnings: [
+          ...parsed.warnings,
           'Try patterns like:',
           '  - "enable vim mode"',
           '  - "set theme to GitHub"',
           '  - "use model gemini-2.0-flash"',
           '  - "disable auto update"',
+          '  - "set ui.showLineNumbers to true"',
         ],
       };
     }
 
-    // Load existing config (or create empty one)
-    let config = loadConfig(scope, projectDir);
-    if (!config) {
-      config = {};
-      logger.info(`Creating new ${scope} configuration`);
+    // Reject the whole batch if any clause could not be understood
+    if (parsed.failedClauses.length > 0) {
+      const parsedLines = parsed.clauses.map((c) => `✓ "${c.clause}"`);
+      const failedLines = parsed.failedClauses.map((c) => `✗ "${c}"`);
+
+      return {
+        success: false,
+        changes: [],
+        configPath: '',
+        preview: [
+          'Could not parse every part of the instruction; no changes were applied.',
+          ...parsedLines,
+          ...failedLines,
+        ].join('\n'),
+        warnings: [...parsed.failedClauses.map((c) => `Could not parse: "${c}"`), ...parsed.warnings],
+      };
+    }
+
+    return await withConfigWriteLock(getConfigPath(scope, projectDir), () =>
+      commitChanges(parsed.changes, scope, dryRun, projectDir, instruction, parsed.warnings)
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Config edit error:', errorMessage);
+
+    return {
+      success: false,
+      changes: [],
+      configPath: '',
+      preview: `Error: ${errorMessage}`,
+      warnings: [],
+    };
+  }
+}
+
+/**
+ * Builds changes from the settings file as read under the write lock, or returns a result to stop with
+ */
+export type ConfigChangeBuilder = (config: Record<string, unknown> | null) => ConfigChange[] | ConfigEditResult;
+
+/**
+ * Edit Gemini CLI configuration from an explicit list of changes (no natural language parsing).
+ * Read-modify-write callers pass a builder instead, which computes the changes from the file as read
+ * under the write lock, so a concurrent edit is either seen or detected instead of silently lost.
+ */
+export async function applyConfigChanges(
+  changesOrBuilder: ConfigChange[] | ConfigChangeBuilder,
+  scope: ConfigScope,
+  dryRun: boolean = false,
+  projectDir?: string
+): Promise<ConfigEditResult> {
+  try {
+    logger.info(`Applying structured changes to ${scope} config (dryRun: ${dryRun})`);
+
+    return await withConfigWriteLock(getConfigPath(scope, projectDir), () => {
+      const snapshot = readConfigSnapshot(scope, projectDir);
+      const changes = typeof changesOrBuilder === 'function' ? changesOrBuilder(snapshot.config) : changesOrBuilder;
+      if (!Array.isArray(changes)) {
+        return changes;
+      }
+
+      if (changes.length === 0) {
+        return invalidChangesResult(['No changes were provided']);
+      }
+
+      const errors: string[] = [];
+      for (const change of changes) {
+        if (change.path.split('.').some((part) => part.trim() === '')) {
+          errors.push(`Invalid setting path: "${change.path}"`);
+        } else if ((change.operation === 'set' || change.operation === 'add') && change.value === undefined) {
+          errors.push(`Operation "${change.operation}" on ${change.path} requires a value`);
+        }
+      }
+
+      if (errors.length > 0) {
+        return invalidChangesResult(errors);
+      }
+
+      const instruction = changes.map((change) => `${change.operation} ${change.path}`).join(', ');
+      return commitChanges(changes, scope, dryRun, projectDir, instruction, [], snapshot);
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Config edit error:', errorMessage);
+
+    return {
+      success: false,
+      changes: [],
+      configPath: '',
+      preview: `Error: ${errorMessage}`,
+      warnings: [],
+    };
+  }
+}
+
+/**
+ * Undo or redo the most recent journaled edit of a settings file.
+ * Refuses if any affected path was modified since the edit was recorded.
+ */
+async function replayHistory(
+  direction: 'undo' | 'redo',
+  scope: ConfigScope,
+  dryRun: boolean,
+  projectDir?: string
+): Promise<ConfigHistoryResult> {
+  try {
+    const configPath = getConfigPath(scope, projectDir);
+    const stacks = getHistoryStacks(configPath);
+    const entry = direction === 'undo' ? stacks.undo[stacks.undo.length - 1] : stacks.redo[stacks.redo.length - 1];
+
+    logger.info(`${direction} ${scope} config change (dryRun: ${dryRun})`);
+
+    if (!entry) {
+      return {
+        success: false,
+        changes: [],
+        configPath,
+        preview: `Nothing to ${direction} for ${configPath}`,
+        warnings: [],
+        conflicts: [],
+      };
     }
 
-    // Create a working copy
-    const newConfig = JSON.parse(JSON.stringify(config));
+    const snapshot = readConfigSnapshot(scope, projectDir);
+    const newConfig = JSON.parse(JSON.stringify(snapshot.config ?? {}));
+    const recorded = direction === 'undo' ? [...entry.changes].reverse() : entry.changes;
 
-    // Apply changes
+    const conflicts: ConfigHistoryConflict[] = [];
     const appliedChanges: Array<{ path: string; oldValue: unknown; newValue: unknown }> = [];
 
-    for (const change of changes) {
-      const result = applyChange(newConfig, change);
-      appliedChanges.push({
+    for (const change of recorded) {
+      const expected = direction === 'undo' ? change.newValue : change.oldValue;
+      const target = direction === 'undo' ? change.oldValue : change.newValue;
+      const actual = getNestedValue(newConfig, change.path);
+
+      if (!isDeepStrictEqual(actual, expected)) {
+        conflicts.push({ path: change.path, expected, actual });
+        continue;
+      }
+
+      const result = applyChange(newConfig, {
         path: change.path,
-        oldValue: result.oldValue,
-        newValue: result.newValue,
+        value: target,
+        operation: target === undefined ? 'remove' : 'set',
       });
+      appliedChanges.push({ path: change.path, oldValue: result.oldValue, newValue: result.newValue });
     }
 
-    // Generate preview
-    const preview = generatePreview(appliedChanges);
+    if (conflicts.length > 0) {
+      logger.warn(`Cannot ${direction} ${entry.id}: ${conflicts.length} conflicting paths`);
+      return {
+        success: false,
+        changes: [],
+        configPath,
+        preview: [
+          `Cannot ${direction} "${entry.instruction}": the settings file was modified since that change.`,
+          ...conflicts.map(
+            (c) => `✗ ${c.path}: expected ${JSON.stringify(c.expected)}, found ${JSON.stringify(c.actual)}`
+          ),
+        ].join('\n'),
+        warnings: [],
+        entryId: entry.id,
+        instruction: entry.instruction,
+        conflicts,
+      };
+    }
 
-    // Validate and collect warnings
-    const warnings = validateChanges(changes);
+    // Replayed values pass the same checks as an edit: the registry may have changed since they were
+    // journaled, and a system settings file may now override them
+    const replayed = appliedChanges.filter((c) => c.newValue !== undefined);
+    const errors = [
+      ...replayed.flatMap((c) => {
+        const validation = validateSettingValue(c.path, c.newValue);
+        return validation.success ? [] : [validation.error];
+      }),
+      ...validateContainingValues(newConfig, appliedChanges.map((c) => c.path)),
+    ];
+    if (errors.length > 0) {
+      return { ...invalidChangesResult(errors), entryId: entry.id, instruction: entry.instruction, conflicts: [] };
+    }
+
+    const overrides = findSystemOverrides(scope, newConfig, replayed.map((c) => c.path), projectDir);
+    if (overrides.length > 0) {
+      return { ...systemOverrideResult(overrides), entryId: entry.id, instruction: entry.instruction, conflicts: [] };
+    }
+
+    const preview = generatePreview(appliedChanges);
+    const warnings = validateChanges(appliedChanges.map((c) => ({ path: c.path, value: c.newValue, operation: 'set' })));
 
-    // If dry run, don't save
     if (dryRun) {
-      logger.info('Dry run - changes not saved');
       return {
         success: true,
         changes: appliedChanges,
         configPath: '',
         preview,
         warnings: [...warnings, 'DRY RUN: Changes not saved'],
+        entryId: entry.id,
+        instruction: entry.instruction,
+        conflicts: [],
       };
     }
 
-    // Create backup before saving
     const backupPath = backupConfig(scope, projectDir);
+    saveConfig(newConfig, scope, projectDir, snapshot);
 
-    // Save the new configuration
-    saveConfig(newConfig, scope, projectDir);
+    const journalId = recordInJournal({
+      type: direction,
+      scope,
+      configPath,
+      instruction: entry.instruction,
+      changes: appliedChanges,
+      target: entry.id,
+    });
 
-    logger.info(`Successfully updated ${scope} configuration`);
+    logger.info(`Successfully applied ${direction} of ${entry.id}`);
 
     return {
       success: true,
       changes: appliedChanges,
-      configPath: getConfigPath(scope, projectDir),
+      configPath,
       preview,
       warnings,
       ...(backupPath ? { backupPath } : {}),
+      ...(journalId ? { journalId } : {}),
+      entryId: entry.id,
+      instruction: entry.instruction,
+      conflicts: [],
     };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error('Config edit error:', errorMessage);
+    logger.error(`Config ${direction} error:`, errorMessage);
 
     return {
       success: false,
@@ -222,6 +633,29 @@ export async function editConfig(
       configPath: '',
       preview: `Error: ${errorMessage}`,
       warnings: [],
+      conflicts: [],
     };
   }
 }
+
+/**
+ * Undo the most recent configuration edit of a scope
+ */
+export async function undoConfigChange(
+  scope: ConfigScope,
+  dryRun: boolean = false,
+  projectDir?: string
+): Promise<ConfigHistoryResult> {
+  return withConfigWriteLock(getConfigPath(scope, projectDir), () => replayHistory('undo', scope, dryRun, projectDir));
+}
+
+/**
+ * Redo the most recently undone configuration edit of a scope
+ */
+export async function redoConfigChange(
+  scope: ConfigScope,
+  dryRun: boolean = false,
+  projectDir?: string
+): Promise<ConfigHistoryResult> {
+  return withConfigWriteLock(getConfigPath(scope, projectDir), () => replayHistory('redo', scope, dryRun, projectDir));
+}
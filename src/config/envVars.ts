@@ -0,0 +1,127 @@
+/**
+ * Environment variable interpolation in settings values ($VAR and ${VAR})
+ */
+
+export interface EnvInterpolation {
+  path: string;
+  raw: string;
+  resolved: string;
+  variables: string[];
+  unresolved: string[];
+}
+
+const ENV_REFERENCE = /\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*))/g;
+
+// Setting keys whose values are usually credentials
+const SECRET_KEY_PATTERN = /(key|token|secret|password|passwd|credential|auth)/i;
+
+/**
+ * List the variable names referenced by a string
+ */
+export function findEnvReferences(value: string): string[] {
+  const names = Array.from(value.matchAll(ENV_REFERENCE), (match) => match[1] ?? match[2]);
+  return Array.from(new Set(names));
+}
+
+/**
+ * Whether a value consists only of $VAR / ${VAR} references (and whitespace), with no literal text
+ */
+export function isEnvReferenceOnly(value: string): boolean {
+  return findEnvReferences(value).length > 0 && value.replace(ENV_REFERENCE, '').trim() === '';
+}
+
+/**
+ * Resolve $VAR / ${VAR} references the way Gemini CLI does.
+ * Unset variables are left as written and reported as unresolved.
+ */
+export function resolveEnvVars(
+  value: string,
+  env: NodeJS.ProcessEnv = process.env
+): { resolved: string; unresolved: string[] } {
+  const unresolved = new Set<string>();
+
+  const resolved = value.replace(ENV_REFERENCE, (match, braced: string | undefined, bare: string | undefined) => {
+    const name = braced ?? bare ?? '';
+    const replacement = env[name];
+    if (replacement === undefined) {
+      unresolved.add(name);
+      return match;
+    }
+    return replacement;
+  });
+
+  return { resolved, unresolved: Array.from(unresolved) };
+}
+
+/**
+ * Collect all string leaves of a value (objects and arrays included), keyed by dotted path
+ */
+function collectStringLeaves(value: unknown, prefix: string, out: Map<string, string> = new Map()): Map<string, string> {
+  if (typeof value === 'string') {
+    out.set(prefix, value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectStringLeaves(item, prefix ? `${prefix}.${index}` : String(index), out));
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      collectStringLeaves(item, prefix ? `${prefix}.${key}` : key, out);
+    }
+  }
+  return out;
+}
+
+/**
+ * Find every string in a value that references environment variables
+ */
+export function collectInterpolations(
+  value: unknown,
+  prefix = '',
+  env: NodeJS.ProcessEnv = process.env
+): EnvInterpolation[] {
+  const interpolations: EnvInterpolation[] = [];
+
+  for (const [path, raw] of collectStringLeaves(value, prefix)) {
+    const variables = findEnvReferences(raw);
+    if (variables.length === 0) {
+      continue;
+    }
+    const { resolved, unresolved } = resolveEnvVars(raw, env);
+    interpolations.push({ path, raw, resolved, variables, unresolved });
+  }
+
+  return interpolations;
+}
+
+/**
+ * Heuristic: does this setting hold a credential?
+ */
+export function isSecretPath(path: string): boolean {
+  const key = path.split('.').pop() ?? '';
+  return SECRET_KEY_PATTERN.test(key);
+}
+
+/**
+ * Warn when a change replaces an environment variable reference with a literal value
+ */
+export function getInterpolationWarnings(path: string, oldValue: unknown, newValue: unknown): string[] {
+  const warnings: string[] = [];
+  const newLeaves = collectStringLeaves(newValue, path);
+
+  for (const interpolation of collectInterpolations(oldValue, path)) {
+    const replacement = newLeaves.get(interpolation.path);
+    if (replacement === undefined || findEnvReferences(replacement).length > 0) {
+      continue;
+    }
+
+    const reference = interpolation.variables.map((name) => `$${name}`).join(', ');
+    if (isSecretPath(interpolation.path) || /^bearer\s/i.test(replacement)) {
+      warnings.push(
+        `${interpolation.path} referenced ${reference} and is now a literal secret stored in plain text; ` +
+          `consider keeping the environment variable reference`
+      );
+    } else {
+      warnings.push(`${interpolation.path} referenced ${reference} and is now a literal value`);
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { listExtensions, planExtensionEnablement } from './extensions.js';
+import { setGeminiExtensionEnabled } from '../tools/extensions.js';
+
+describe('extension enablement', () => {
+  let root: string;
+  let project: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const settingsPath = (scope: 'user' | 'project') =>
+    scope === 'user' ? join(root, 'home', '.gemini', 'settings.json') : join(project, '.gemini', 'settings.json');
+  const writeSettings = (scope: 'user' | 'project', config: Record<string, unknown>) =>
+    writeFileSync(settingsPath(scope), JSON.stringify(config, null, 2));
+  const readSettings = (scope: 'user' | 'project') => JSON.parse(readFileSync(settingsPath(scope), 'utf-8'));
+
+  const install = (baseDir: string, name: string) => {
+    mkdirSync(join(baseDir, '.gemini', 'extensions', name), { recursive: true });
+    writeFileSync(
+      join(baseDir, '.gemini', 'extensions', name, 'gemini-extension.json'),
+      JSON.stringify({ name, version: '1.0.0' })
+    );
+  };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'extensions-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(project, '.gemini'), { recursive: true });
+    install(join(root, 'home'), 'search');
+    install(join(root, 'home'), 'lint');
+    install(project, 'deploy');
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports an extension disabled in either scope as inactive', () => {
+    writeSettings('user', { extensions: { disabled: ['search'] } });
+    writeSettings('project', { extensions: { disabled: ['deploy'] } });
+
+    const state = Object.fromEntries(listExtensions(project).map((e) => [e.name, [e.active, e.disabledIn]]));
+    expect(state).toEqual({ deploy: [false, ['project']], search: [false, ['user']], lint: [true, []] });
+  });
+
+  it('adds and removes the name in the given scope only', () => {
+    const config = { extensions: { disabled: ['lint'] } };
+
+    expect(planExtensionEnablement('search', false, 'user', config, project)).toEqual({
+      changes: [{ path: 'extensions.disabled', operation: 'set', value: ['lint', 'search'] }],
+      warnings: [],
+    });
+    expect(planExtensionEnablement('lint', true, 'user', config, project)).toEqual({
+      changes: [{ path: 'extensions.disabled', operation: 'set', value: [] }],
+      warnings: [],
+    });
+  });
+
+  it('warns when enabling an extension the other scope still disables', () => {
+    writeSettings('user', { extensions: { disabled: ['deploy'] } });
+
+    const plan = planExtensionEnablement('deploy', true, 'project', { extensions: { disabled: ['deploy'] } }, project);
+    expect(plan.changes).toEqual([{ path: 'extensions.disabled', operation: 'set', value: [] }]);
+    expect(plan.warnings).toEqual([
+      'Extension "deploy" is also disabled in user settings and stays disabled until it is enabled there too',
+    ]);
+  });
+
+  it('plans nothing when the scope already has the requested state, and warns about unknown names', () => {
+    expect(planExtensionEnablement('lint', true, 'project', null, project)).toEqual({
+      changes: [],
+      warnings: ['Extension "lint" is already enabled in project settings'],
+    });
+    expect(planExtensionEnablement('missing', false, 'user', null, project).warnings).toEqual([
+      'Extension "missing" is not installed in the user or workspace extensions directory',
+    ]);
+  });
+
+  it('keeps every entry when several extensions are disabled at once', async () => {
+    writeSettings('user', {});
+
+    const results = await Promise.all(
+      ['search', 'lint', 'deploy'].map((name) =>
+        setGeminiExtensionEnabled({ name, enabled: false, scope: 'user', projectDir: project })
+      )
+    );
+
+    expect(results.map((result) => result.isError)).toEqual([false, false, false]);
+    expect(readSettings('user').extensions.disabled).toEqual(['search', 'lint', 'deploy']);
+  });
+});
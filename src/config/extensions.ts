@@ -0,0 +1,239 @@
+/**
+ * Installed Gemini CLI extensions and their enablement
+ */
+
+import { readFileSync, readdirSync, existsSync, statSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { z } from 'zod';
+import { loadConfig, resolveProjectDir, type ConfigScope } from './loader.js';
+import { parseJsonc } from './jsonc.js';
+import { mcpServerSchema } from './mcpSchema.js';
+import type { ConfigChange } from './parser.js';
+import { validateSchema } from '../utils/validation.js';
+
+export const EXTENSION_MANIFEST = 'gemini-extension.json';
+
+// Context file Gemini CLI loads from an extension when contextFileName is not set
+const DEFAULT_CONTEXT_FILE = 'GEMINI.md';
+
+export interface ExtensionInfo {
+  name: string;
+  version?: string;
+  description?: string;
+  scope: ConfigScope;
+  path: string;
+  // False when the extension has errors, is disabled in either scope, or is shadowed by another with the same name
+  active: boolean;
+  disabledIn: ConfigScope[];
+  mcpServers: string[];
+  contextFiles: Array<{ name: string; exists: boolean }>;
+  excludeTools: string[];
+  // Path of the extension that wins when several share this name
+  shadowedBy?: string;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Schema for gemini-extension.json.
+ * Unknown fields are allowed so newer manifest options are not rejected.
+ */
+const extensionManifestSchema = z
+  .object({
+    name: z.string().min(1),
+    version: z.string().min(1),
+    description: z.string().optional(),
+    mcpServers: z.record(z.unknown()).optional(),
+    contextFileName: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+    excludeTools: z.array(z.string()).optional(),
+  })
+  .passthrough();
+
+/**
+ * Get the extensions directory for a scope.
+ * Workspace extensions live in the project's .gemini directory.
+ */
+export function getExtensionsDir(scope: ConfigScope, projectDir?: string): string {
+  const baseDir = scope === 'user' ? homedir() : resolveProjectDir(projectDir);
+  return join(baseDir, '.gemini', 'extensions');
+}
+
+/**
+ * Read the extensions.disabled list stored in one scope's settings file
+ */
+export function getDisabledExtensions(scope: ConfigScope, projectDir?: string): string[] {
+  return disabledExtensionsOf(loadConfig(scope, projectDir));
+}
+
+function disabledExtensionsOf(config: Record<string, unknown> | null): string[] {
+  const disabled = (config?.extensions as Record<string, unknown> | undefined)?.disabled;
+  return Array.isArray(disabled) ? disabled.filter((name): name is string => typeof name === 'string') : [];
+}
+
+/**
+ * Parse and validate one extension directory
+ */
+function readExtension(dir: string, scope: ConfigScope, fallbackName: string): ExtensionInfo {
+  const info: ExtensionInfo = {
+    name: fallbackName,
+    scope,
+    path: dir,
+    active: false,
+    disabledIn: [],
+    mcpServers: [],
+    contextFiles: [],
+    excludeTools: [],
+    errors: [],
+    warnings: [],
+  };
+
+  const manifestPath = join(dir, EXTENSION_MANIFEST);
+  if (!existsSync(manifestPath)) {
+    info.errors.push(`Missing ${EXTENSION_MANIFEST}`);
+    return info;
+  }
+
+  let manifest: Record<string, unknown>;
+  try {
+    manifest = parseJsonc(readFileSync(manifestPath, 'utf-8'));
+  } catch (error) {
+    info.errors.push(`Invalid ${EXTENSION_MANIFEST}: ${error instanceof Error ? error.message : String(error)}`);
+    return info;
+  }
+
+  const validation = validateSchema(extensionManifestSchema, manifest);
+  if (!validation.success) {
+    info.errors.push(`Invalid ${EXTENSION_MANIFEST}: ${validation.error}`);
+  }
+
+  if (typeof manifest.name === 'string' && manifest.name) {
+    info.name = manifest.name;
+    if (manifest.name !== fallbackName) {
+      info.warnings.push(`Directory name "${fallbackName}" does not match extension name "${manifest.name}"`);
+    }
+  }
+  if (typeof manifest.version === 'string') {
+    info.version = manifest.version;
+  }
+  if (typeof manifest.description === 'string') {
+    info.description = manifest.description;
+  }
+  if (Array.isArray(manifest.excludeTools)) {
+    info.excludeTools = manifest.excludeTools.filter((tool): tool is string => typeof tool === 'string');
+  }
+
+  if (typeof manifest.mcpServers === 'object' && manifest.mcpServers !== null) {
+    for (const [serverName, server] of Object.entries(manifest.mcpServers)) {
+      info.mcpServers.push(serverName);
+      const result = validateSchema(mcpServerSchema, server);
+      if (!result.success) {
+        info.errors.push(`Invalid MCP server "${serverName}": ${result.error}`);
+      }
+    }
+  }
+
+  const contextNames =
+    manifest.contextFileName === undefined
+      ? [DEFAULT_CONTEXT_FILE]
+      : ([] as unknown[]).concat(manifest.contextFileName).filter((name): name is string => typeof name === 'string');
+  info.contextFiles = contextNames.map((name) => ({ name, exists: existsSync(join(dir, name)) }));
+
+  // Only a missing file that the manifest names explicitly is worth mentioning
+  if (manifest.contextFileName !== undefined) {
+    for (const file of info.contextFiles.filter((file) => !file.exists)) {
+      info.warnings.push(`Context file ${file.name} does not exist`);
+    }
+  }
+
+  return info;
+}
+
+/**
+ * Read every extension directory in one scope
+ */
+function scanExtensionsDir(scope: ConfigScope, projectDir?: string): ExtensionInfo[] {
+  const extensionsDir = getExtensionsDir(scope, projectDir);
+  if (!existsSync(extensionsDir)) {
+    return [];
+  }
+
+  return readdirSync(extensionsDir)
+    .filter((entry) => {
+      try {
+        return statSync(join(extensionsDir, entry)).isDirectory();
+      } catch {
+        return false;
+      }
+    })
+    .sort()
+    .map((entry) => readExtension(join(extensionsDir, entry), scope, entry));
+}
+
+/**
+ * List installed extensions from the workspace and user directories.
+ * Like Gemini CLI, workspace extensions are loaded first and win name collisions;
+ * an extension is disabled if either scope lists it in extensions.disabled.
+ */
+export function listExtensions(projectDir?: string): ExtensionInfo[] {
+  const extensions = [...scanExtensionsDir('project', projectDir), ...scanExtensionsDir('user')];
+  const disabled: Record<ConfigScope, string[]> = {
+    user: getDisabledExtensions('user'),
+    project: getDisabledExtensions('project', projectDir),
+  };
+  const winners = new Map<string, ExtensionInfo>();
+
+  for (const extension of extensions) {
+    extension.disabledIn = (['user', 'project'] as const).filter((scope) => disabled[scope].includes(extension.name));
+
+    const winner = winners.get(extension.name);
+    if (winner) {
+      extension.shadowedBy = winner.path;
+      extension.warnings.push(`Name collides with ${winner.path}, which is loaded instead`);
+      winner.warnings.push(`Name collides with ${extension.path}, which is ignored`);
+    } else {
+      winners.set(extension.name, extension);
+    }
+
+    extension.active = extension.errors.length === 0 && extension.disabledIn.length === 0 && !extension.shadowedBy;
+  }
+
+  return extensions;
+}
+
+/**
+ * Plan the extensions.disabled change that enables or disables an extension in one scope.
+ * `config` is that scope's settings file as read under the write lock, so the new list keeps concurrent edits.
+ * Disabled lists from both scopes are combined, so enabling in one scope
+ * has no effect while the other scope still disables the extension.
+ */
+export function planExtensionEnablement(
+  name: string,
+  enabled: boolean,
+  scope: ConfigScope,
+  config: Record<string, unknown> | null,
+  projectDir?: string
+): { changes: ConfigChange[]; warnings: string[] } {
+  const warnings: string[] = [];
+  const installed = listExtensions(projectDir).filter((extension) => extension.name === name);
+  if (installed.length === 0) {
+    warnings.push(`Extension "${name}" is not installed in the user or workspace extensions directory`);
+  }
+
+  const current = disabledExtensionsOf(config);
+  const otherScope: ConfigScope = scope === 'user' ? 'project' : 'user';
+  const next = enabled ? current.filter((entry) => entry !== name) : Array.from(new Set([...current, name]));
+
+  if (enabled && getDisabledExtensions(otherScope, projectDir).includes(name)) {
+    warnings.push(
+      `Extension "${name}" is also disabled in ${otherScope} settings and stays disabled until it is enabled there too`
+    );
+  }
+
+  if (next.length === current.length && next.every((entry, index) => entry === current[index])) {
+    warnings.push(`Extension "${name}" is already ${enabled ? 'enabled' : 'disabled'} in ${scope} settings`);
+    return { changes: [], warnings };
+  }
+
+  return { changes: [{ path: 'extensions.disabled', operation: 'set', value: next }], warnings };
+}
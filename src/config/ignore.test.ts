@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, statSync, chmodSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { previewIgnoredFiles, updateGeminiIgnore } from './ignore.js';
+
+describe('previewIgnoredFiles', () => {
+  let root: string;
+  const savedHome = process.env.HOME;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'ignore-test-'));
+    process.env.HOME = join(root, 'home');
+    mkdirSync(join(root, 'repo', '.git'), { recursive: true });
+    mkdirSync(join(root, 'repo', 'sub', 'deeper'), { recursive: true });
+    writeFileSync(join(root, 'repo', '.gitignore'), '*.log\nsecret.txt\n');
+    writeFileSync(join(root, 'repo', '.geminiignore'), 'drafts/\n!secret.txt\n');
+    writeFileSync(join(root, 'repo', 'sub', '.gitignore'), '*.tmp\n');
+    for (const file of ['a.log', 'keep.ts', 'secret.txt', 'x.tmp', 'deeper/b.log', 'deeper/y.tmp']) {
+      writeFileSync(join(root, 'repo', 'sub', file), '');
+    }
+    mkdirSync(join(root, 'repo', 'sub', 'drafts'));
+  });
+
+  afterAll(() => {
+    process.env.HOME = savedHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('applies the ignore files of the workspace root when previewing a subdirectory', () => {
+    const preview = previewIgnoredFiles(join(root, 'repo', 'sub'));
+    const ignored = Object.fromEntries(preview.ignored.map((entry) => [entry.path, entry.rule.source]));
+
+    expect(ignored).toEqual({
+      'a.log': '.gitignore:1',
+      'deeper/b.log': '.gitignore:1',
+      'deeper/y.tmp': 'sub/.gitignore:1',
+      'drafts/': '.geminiignore:1',
+      'secret.txt': '.gitignore:2',
+      'x.tmp': 'sub/.gitignore:1',
+    });
+    expect(preview.ignoreFiles).toEqual(
+      expect.arrayContaining([join(root, 'repo', '.gitignore'), join(root, 'repo', '.geminiignore')])
+    );
+  });
+
+  it('lists the same entries from the workspace root', () => {
+    const paths = previewIgnoredFiles(join(root, 'repo')).ignored.map((entry) => entry.path);
+    expect(paths).toEqual(expect.arrayContaining(['sub/a.log', 'sub/x.tmp', 'sub/secret.txt', 'sub/drafts/']));
+  });
+
+  it('does not let a .geminiignore negation re-include a file .gitignore excludes', () => {
+    const preview = previewIgnoredFiles(join(root, 'repo', 'sub'));
+    expect(preview.ignored.find((entry) => entry.path === 'secret.txt')?.rule.pattern).toBe('secret.txt');
+  });
+});
+
+describe('updateGeminiIgnore', () => {
+  let root: string;
+  const savedHome = process.env.HOME;
+
+  beforeAll(() => {
+    root = mkdtempSync(join(tmpdir(), 'ignore-test-'));
+    process.env.HOME = join(root, 'home');
+    mkdirSync(join(root, 'repo', '.git'), { recursive: true });
+  });
+
+  afterAll(() => {
+    process.env.HOME = savedHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('edits the file in place, keeping its line endings and mode', () => {
+    const path = join(root, 'repo', '.geminiignore');
+    writeFileSync(path, '# generated\r\ndist/\r\n*.log\r\n');
+    chmodSync(path, 0o600);
+
+    const result = updateGeminiIgnore(['coverage/', 'dist/', '# note'], ['*.log', '*.tmp'], false, join(root, 'repo'));
+
+    expect(result).toMatchObject({
+      path,
+      added: ['coverage/'],
+      removed: ['*.log'],
+      skipped: ['*.tmp (not present)', 'dist/ (already present)', '# note (comments are not patterns)'],
+    });
+    expect(readFileSync(path, 'utf-8')).toBe('# generated\r\ndist/\r\ncoverage/\r\n');
+    expect(statSync(path).mode & 0o777).toBe(0o600);
+    expect(readdirSync(join(root, 'repo')).filter((entry) => entry.includes('.tmp-'))).toEqual([]);
+  });
+});
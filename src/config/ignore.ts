@@ -0,0 +1,300 @@
+/**
+ * .geminiignore management and ignored-file preview
+ */
+
+import { readFileSync, readdirSync, existsSync } from 'fs';
+import { join, relative, resolve, sep } from 'path';
+import ignore, { type Ignore } from 'ignore';
+import { loadMergedConfig, getNestedValue } from './merge.js';
+import { findWorkspaceRoot, resolveProjectDir, writeFileAtomic } from './loader.js';
+
+export const GEMINI_IGNORE_FILE = '.geminiignore';
+
+// Entries never shown to the model, whatever the ignore files say
+const ALWAYS_IGNORED = ['.git'];
+
+const DEFAULT_PREVIEW_LIMIT = 200;
+
+// Stop scanning after this many entries so huge trees stay responsive
+const MAX_SCANNED_ENTRIES = 50_000;
+
+export interface IgnorePattern {
+  line: number;
+  pattern: string;
+  negated: boolean;
+}
+
+export interface IgnoreRuleMatch {
+  pattern: string;
+  // File and line the pattern comes from, e.g. ".gitignore:3"
+  source: string;
+}
+
+export interface IgnoredEntry {
+  // Relative to the preview root; directories end with "/"
+  path: string;
+  rule: IgnoreRuleMatch;
+}
+
+export interface IgnorePreview {
+  root: string;
+  respectGitIgnore: boolean;
+  respectGeminiIgnore: boolean;
+  ignoreFiles: string[];
+  ignored: IgnoredEntry[];
+  ignoredCount: number;
+  scannedCount: number;
+  // True when results or the scan were cut short
+  truncated: boolean;
+}
+
+export function getGeminiIgnorePath(projectDir?: string): string {
+  return join(resolveProjectDir(projectDir), GEMINI_IGNORE_FILE);
+}
+
+/**
+ * Parse the patterns of an ignore file, skipping blank lines and comments
+ */
+export function parseIgnorePatterns(content: string): IgnorePattern[] {
+  return content.split(/\r?\n/).flatMap((raw, index) => {
+    const pattern = raw.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+      return [];
+    }
+    return [{ line: index + 1, pattern, negated: pattern.startsWith('!') }];
+  });
+}
+
+/**
+ * Read the patterns of a project's .geminiignore
+ */
+export function readGeminiIgnore(projectDir?: string): { path: string; exists: boolean; patterns: IgnorePattern[] } {
+  const path = getGeminiIgnorePath(projectDir);
+  if (!existsSync(path)) {
+    return { path, exists: false, patterns: [] };
+  }
+  return { path, exists: true, patterns: parseIgnorePatterns(readFileSync(path, 'utf-8')) };
+}
+
+/**
+ * Add or remove .geminiignore patterns, preserving comments and ordering.
+ * Adding an existing pattern or removing a missing one is reported, not an error.
+ */
+export function updateGeminiIgnore(
+  add: string[],
+  remove: string[],
+  dryRun = false,
+  projectDir?: string
+): { path: string; added: string[]; removed: string[]; skipped: string[]; content: string } {
+  const path = getGeminiIgnorePath(projectDir);
+  const original = existsSync(path) ? readFileSync(path, 'utf-8') : '';
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  let lines = original === '' ? [] : original.split(/\r?\n/);
+  if (lines.length > 0 && lines[lines.length - 1] === '') {
+    lines.pop();
+  }
+
+  const added: string[] = [];
+  const removed: string[] = [];
+  const skipped: string[] = [];
+  const current = () => new Set(parseIgnorePatterns(lines.join('\n')).map((entry) => entry.pattern));
+
+  for (const pattern of remove.map((entry) => entry.trim()).filter(Boolean)) {
+    if (current().has(pattern)) {
+      lines = lines.filter((line) => line.replace(/(?<!\\)\s+$/, '') !== pattern);
+      removed.push(pattern);
+    } else {
+      skipped.push(`${pattern} (not present)`);
+    }
+  }
+
+  for (const pattern of add.map((entry) => entry.trim()).filter(Boolean)) {
+    if (pattern.startsWith('#')) {
+      skipped.push(`${pattern} (comments are not patterns)`);
+    } else if (current().has(pattern)) {
+      skipped.push(`${pattern} (already present)`);
+    } else {
+      lines.push(pattern);
+      added.push(pattern);
+    }
+  }
+
+  const content = lines.length > 0 ? lines.join(eol) + eol : '';
+  if (!dryRun && (added.length > 0 || removed.length > 0)) {
+    writeFileAtomic(path, content);
+  }
+
+  return { path, added, removed, skipped, content };
+}
+
+/**
+ * Ignore rules of one file, applied to paths relative to the directory it lives in
+ */
+interface IgnoreLayer {
+  base: string;
+  matcher: Ignore;
+}
+
+function loadIgnoreLayer(filePath: string, base: string, label: string): IgnoreLayer | null {
+  if (!existsSync(filePath)) {
+    return null;
+  }
+  const matcher = ignore();
+  for (const entry of parseIgnorePatterns(readFileSync(filePath, 'utf-8'))) {
+    matcher.add({ pattern: entry.pattern, mark: `${label}:${entry.line}` });
+  }
+  return { base, matcher };
+}
+
+/**
+ * Check a path against ignore layers; later (deeper) layers override earlier ones
+ */
+function matchLayers(layers: IgnoreLayer[], absolutePath: string, isDirectory: boolean): IgnoreRuleMatch | null {
+  let match: IgnoreRuleMatch | null = null;
+
+  for (const layer of layers) {
+    const relativePath = relative(layer.base, absolutePath).split(sep).join('/');
+    if (!relativePath || relativePath.startsWith('..')) {
+      continue;
+    }
+    const result = layer.matcher.checkIgnore(isDirectory ? `${relativePath}/` : relativePath);
+    if (result.ignored && result.rule) {
+      match = { pattern: result.rule.pattern, source: result.rule.mark ?? '' };
+    } else if (result.unignored) {
+      match = null;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * Git and Gemini ignore rules are separate filters, as in Gemini CLI: a "!pattern" in .geminiignore
+ * cannot re-include a file that .gitignore excludes, and a path is ignored if either filter ignores it
+ */
+interface IgnoreFilters {
+  git: IgnoreLayer[];
+  gemini: IgnoreLayer[];
+}
+
+function matchFilters(
+  builtIn: IgnoreLayer,
+  filters: IgnoreFilters,
+  absolutePath: string,
+  isDirectory: boolean
+): IgnoreRuleMatch | null {
+  return (
+    matchLayers([builtIn], absolutePath, isDirectory) ??
+    matchLayers(filters.git, absolutePath, isDirectory) ??
+    matchLayers(filters.gemini, absolutePath, isDirectory)
+  );
+}
+
+/**
+ * Directories from the workspace root down to dir, outermost first
+ */
+function directoryChain(workspaceRoot: string, dir: string): string[] {
+  const rel = relative(workspaceRoot, dir);
+  if (!rel || rel.startsWith('..')) {
+    return [dir];
+  }
+  const chain = [workspaceRoot];
+  for (const part of rel.split(sep)) {
+    chain.push(join(chain[chain.length - 1], part));
+  }
+  return chain;
+}
+
+/**
+ * List the files and directories Gemini CLI would exclude below a directory, and the rule responsible.
+ * Follows context.fileFiltering.respectGitIgnore / respectGeminiIgnore from the effective config.
+ * Ignore files of the workspace root and every directory between it and the previewed directory apply too.
+ * Contents of an ignored directory are not listed separately, as git cannot re-include them.
+ */
+export function previewIgnoredFiles(directory?: string, limit = DEFAULT_PREVIEW_LIMIT): IgnorePreview {
+  const root = directory ? resolve(directory) : resolveProjectDir();
+  const workspaceRoot = findWorkspaceRoot(root);
+  const config = loadMergedConfig(workspaceRoot).config;
+  const respectGitIgnore = getNestedValue(config, 'context.fileFiltering.respectGitIgnore') !== false;
+  const respectGeminiIgnore = getNestedValue(config, 'context.fileFiltering.respectGeminiIgnore') !== false;
+
+  const preview: IgnorePreview = {
+    root,
+    respectGitIgnore,
+    respectGeminiIgnore,
+    ignoreFiles: [],
+    ignored: [],
+    ignoredCount: 0,
+    scannedCount: 0,
+    truncated: false,
+  };
+
+  const builtInMatcher = ignore();
+  ALWAYS_IGNORED.forEach((pattern) => builtInMatcher.add({ pattern, mark: 'built-in' }));
+  const builtIn: IgnoreLayer = { base: root, matcher: builtInMatcher };
+
+  // Sources are labelled relative to the workspace root, e.g. ".gitignore:3" or "sub/.gitignore:1"
+  const addLayer = (layers: IgnoreLayer[], filePath: string, base: string) => {
+    const layer = loadIgnoreLayer(filePath, base, relative(workspaceRoot, filePath).split(sep).join('/'));
+    if (layer) {
+      layers.push(layer);
+      preview.ignoreFiles.push(filePath);
+    }
+  };
+
+  const baseFilters: IgnoreFilters = { git: [], gemini: [] };
+  if (respectGitIgnore) {
+    addLayer(baseFilters.git, join(workspaceRoot, '.git', 'info', 'exclude'), workspaceRoot);
+  }
+  for (const dir of directoryChain(workspaceRoot, root)) {
+    if (respectGitIgnore) {
+      addLayer(baseFilters.git, join(dir, '.gitignore'), dir);
+    }
+    if (respectGeminiIgnore) {
+      addLayer(baseFilters.gemini, join(dir, GEMINI_IGNORE_FILE), dir);
+    }
+  }
+
+  const walk = (dir: string, filters: IgnoreFilters) => {
+    // Nested .gitignore files apply to their own subtree
+    if (respectGitIgnore && dir !== root) {
+      const nested = [...filters.git];
+      addLayer(nested, join(dir, '.gitignore'), dir);
+      filters = { ...filters, git: nested };
+    }
+
+    let entries;
+    try {
+      entries = readdirSync(dir, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name));
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      if (preview.scannedCount >= MAX_SCANNED_ENTRIES) {
+        preview.truncated = true;
+        return;
+      }
+      preview.scannedCount++;
+
+      const fullPath = join(dir, entry.name);
+      const isDirectory = entry.isDirectory();
+      const rule = matchFilters(builtIn, filters, fullPath, isDirectory);
+
+      if (rule) {
+        preview.ignoredCount++;
+        if (preview.ignored.length < limit) {
+          const path = relative(root, fullPath).split(sep).join('/');
+          preview.ignored.push({ path: isDirectory ? `${path}/` : path, rule });
+        } else {
+          preview.truncated = true;
+        }
+      } else if (isDirectory) {
+        walk(fullPath, filters);
+      }
+    }
+  };
+
+  walk(root, baseFilters);
+  return preview;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { editConfig, undoConfigChange, redoConfigChange } from './editor.js';
+import { appendJournalEntry, readJournal, getJournalPath, MAX_JOURNAL_ENTRIES } from './journal.js';
+
+describe('change journal', () => {
+  let root: string;
+  let project: string;
+  let settingsPath: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const readSettings = () => JSON.parse(readFileSync(settingsPath, 'utf-8'));
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'journal-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(root, 'system'));
+    mkdirSync(join(project, '.git'), { recursive: true });
+    settingsPath = join(root, 'home', '.gemini', 'settings.json');
+    writeFileSync(settingsPath, JSON.stringify({ ui: { theme: 'Default' } }, null, 2));
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system', 'settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('undoes and redoes an edit', async () => {
+    const edit = await editConfig('set theme to GitHub and enable vim mode', 'user', false, project);
+    expect(edit.success).toBe(true);
+    expect(readSettings()).toEqual({ ui: { theme: 'GitHub' }, general: { vimMode: true } });
+
+    const undo = await undoConfigChange('user', false, project);
+    expect(undo.success).toBe(true);
+    expect(undo.entryId).toBe(edit.journalId);
+    expect(readSettings()).toEqual({ ui: { theme: 'Default' }, general: {} });
+
+    const redo = await redoConfigChange('user', false, project);
+    expect(redo.success).toBe(true);
+    expect(readSettings()).toEqual({ ui: { theme: 'GitHub' }, general: { vimMode: true } });
+
+    expect(readJournal().map((entry) => entry.type)).toEqual(['edit', 'undo', 'redo']);
+    expect((await redoConfigChange('user', false, project)).success).toBe(false);
+  });
+
+  it('refuses to undo when the file changed since the edit', async () => {
+    await editConfig('set theme to GitHub', 'user', false, project);
+    writeFileSync(settingsPath, JSON.stringify({ ui: { theme: 'Dracula' } }, null, 2));
+
+    const undo = await undoConfigChange('user', false, project);
+    expect(undo.success).toBe(false);
+    expect(undo.conflicts).toEqual([{ path: 'ui.theme', expected: 'GitHub', actual: 'Dracula' }]);
+    expect(readSettings()).toEqual({ ui: { theme: 'Dracula' } });
+  });
+
+  it('refuses to redo a change that system settings now override', async () => {
+    await editConfig('set theme to GitHub', 'user', false, project);
+    await undoConfigChange('user', false, project);
+    writeFileSync(join(root, 'system', 'settings.json'), JSON.stringify({ ui: { theme: 'Corporate' } }));
+
+    const redo = await redoConfigChange('user', false, project);
+    expect(redo.success).toBe(false);
+    expect(redo.preview).toContain('ui.theme is enforced as "Corporate"');
+    expect(readSettings()).toEqual({ ui: { theme: 'Default' } });
+  });
+
+  it('keeps the journal private and bounded', () => {
+    for (let i = 0; i < MAX_JOURNAL_ENTRIES + 5; i++) {
+      appendJournalEntry({ type: 'edit', scope: 'user', configPath: settingsPath, instruction: `edit ${i}`, changes: [] });
+    }
+
+    const entries = readJournal();
+    expect(entries).toHaveLength(MAX_JOURNAL_ENTRIES);
+    expect(entries[0].instruction).toBe('edit 5');
+    expect(statSync(getJournalPath()).mode & 0o777).toBe(0o600);
+  });
+});
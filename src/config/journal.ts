@@ -0,0 +1,147 @@
+/**
+ * Journal of applied configuration edits, used for undo/redo
+ */
+
+import { readFileSync, appendFileSync, writeFileSync, existsSync, mkdirSync, statSync, chmodSync, renameSync } from 'fs';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import { randomUUID, randomBytes } from 'crypto';
+import type { ConfigScope } from './loader.js';
+import { logger } from '../utils/logger.js';
+
+export interface JournalChange {
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+}
+
+export interface JournalEntry {
+  id: string;
+  timestamp: string;
+  type: 'edit' | 'undo' | 'redo';
+  scope: ConfigScope;
+  configPath: string;
+  instruction: string;
+  changes: JournalChange[];
+  // For undo/redo entries: the edit entry that was undone or redone
+  target?: string;
+}
+
+// Oldest entries beyond this are dropped; undo and redo only reach back this far
+export const MAX_JOURNAL_ENTRIES = 500;
+
+// The journal holds old and new setting values verbatim, which may include credentials
+const JOURNAL_FILE_MODE = 0o600;
+
+/**
+ * Get the path to the change journal
+ */
+export function getJournalPath(): string {
+  return join(homedir(), '.gemini', 'assistant-journal.jsonl');
+}
+
+/**
+ * Read all journal entries, oldest first.
+ * Malformed lines are skipped so a partially written line cannot break undo.
+ */
+export function readJournal(): JournalEntry[] {
+  const journalPath = getJournalPath();
+
+  if (!existsSync(journalPath)) {
+    return [];
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const line of readFileSync(journalPath, 'utf-8').split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+    try {
+      entries.push(JSON.parse(line) as JournalEntry);
+    } catch {
+      logger.warn(`Skipping malformed journal line in ${journalPath}`);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Append an entry to the journal
+ */
+export function appendJournalEntry(entry: Omit<JournalEntry, 'id' | 'timestamp'>): JournalEntry {
+  const journalPath = getJournalPath();
+  const record: JournalEntry = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    ...entry,
+  };
+
+  const dir = dirname(journalPath);
+  if (!existsSync(dir)) {
+    mkdirSync(dir, { recursive: true });
+  }
+
+  // An undefined oldValue/newValue (setting added or removed) is omitted and reads back as undefined
+  appendFileSync(journalPath, `${JSON.stringify(record)}\n`, { encoding: 'utf-8', mode: JOURNAL_FILE_MODE });
+  // Journals written before the mode was set keep their old permissions until tightened here
+  if ((statSync(journalPath).mode & 0o077) !== 0) {
+    chmodSync(journalPath, JOURNAL_FILE_MODE);
+  }
+  logger.debug(`Journaled ${record.type} ${record.id} for ${record.configPath}`);
+
+  trimJournal(journalPath);
+  return record;
+}
+
+/**
+ * Drop the oldest entries once the journal holds more than MAX_JOURNAL_ENTRIES.
+ * The trimmed journal is written to a temporary file and renamed into place.
+ */
+function trimJournal(journalPath: string): void {
+  const entries = readJournal();
+  if (entries.length <= MAX_JOURNAL_ENTRIES) {
+    return;
+  }
+
+  const kept = entries.slice(-MAX_JOURNAL_ENTRIES);
+  const tempPath = `${journalPath}.tmp-${process.pid}-${randomBytes(4).toString('hex')}`;
+  writeFileSync(tempPath, kept.map((entry) => `${JSON.stringify(entry)}\n`).join(''), {
+    encoding: 'utf-8',
+    mode: JOURNAL_FILE_MODE,
+  });
+  renameSync(tempPath, journalPath);
+  logger.debug(`Trimmed journal to the ${kept.length} most recent entries`);
+}
+
+/**
+ * Replay the journal for one settings file to find which edits can be undone and redone.
+ * Both stacks are returned with the most recent entry last.
+ */
+export function getHistoryStacks(configPath: string): { undo: JournalEntry[]; redo: JournalEntry[] } {
+  const undo: JournalEntry[] = [];
+  let redo: JournalEntry[] = [];
+
+  for (const entry of readJournal()) {
+    if (entry.configPath !== configPath) {
+      continue;
+    }
+
+    if (entry.type === 'edit') {
+      undo.push(entry);
+      redo = [];
+    } else if (entry.type === 'undo' && entry.target) {
+      const index = undo.findIndex((e) => e.id === entry.target);
+      if (index !== -1) {
+        redo.push(...undo.splice(index, 1));
+      }
+    } else if (entry.type === 'redo' && entry.target) {
+      const index = redo.findIndex((e) => e.id === entry.target);
+      if (index !== -1) {
+        undo.push(...redo.splice(index, 1));
+      }
+    }
+  }
+
+  return { undo, redo };
+}
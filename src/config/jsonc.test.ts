@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { parseJsonc, updateJsoncText } from './jsonc.js';
+
+const SETTINGS = `{
+  // Editor preferences
+  "general": {
+    "vimMode": false, // toggled often
+    // Opens diffs
+    "preferredEditor": "code",
+  },
+  /* Look and feel */
+  "ui": {
+    "theme": "GitHub",
+  },
+}
+`;
+
+describe('updateJsoncText', () => {
+  it('returns the text unchanged when nothing changed', () => {
+    expect(updateJsoncText(SETTINGS, parseJsonc(SETTINGS))).toBe(SETTINGS);
+  });
+
+  it('changes a value in place, keeping comments and trailing commas', () => {
+    const updated = updateJsoncText(SETTINGS, {
+      general: { vimMode: true, preferredEditor: 'code' },
+      ui: { theme: 'GitHub' },
+    });
+
+    expect(updated).toBe(SETTINGS.replace('"vimMode": false', '"vimMode": true'));
+  });
+
+  it('adds and removes keys without touching the rest of the file', () => {
+    const updated = updateJsoncText(SETTINGS, {
+      general: { vimMode: false },
+      ui: { theme: 'GitHub', hideBanner: true },
+    });
+
+    expect(updated).toBe(`{
+  // Editor preferences
+  "general": {
+    "vimMode": false, // toggled often
+  },
+  /* Look and feel */
+  "ui": {
+    "theme": "GitHub",
+    "hideBanner": true,
+  },
+}
+`);
+  });
+
+  it('keeps the comments of neighbouring keys when removing keys from a file without trailing commas', () => {
+    const original = `{
+  "general": {
+    "vimMode": true, // editor
+    "preferredEditor": "code", // diffs
+    "disableAutoUpdate": true // pinned
+  },
+  /* Look and feel */
+  "ui": {
+    "theme": "GitHub"
+  }
+}
+`;
+
+    expect(updateJsoncText(original, { general: { vimMode: true, disableAutoUpdate: true }, ui: { theme: 'GitHub' } }))
+      .toBe(`{
+  "general": {
+    "vimMode": true, // editor
+    "disableAutoUpdate": true // pinned
+  },
+  /* Look and feel */
+  "ui": {
+    "theme": "GitHub"
+  }
+}
+`);
+    expect(updateJsoncText(original, { general: { vimMode: true, preferredEditor: 'code' } })).toBe(`{
+  "general": {
+    "vimMode": true, // editor
+    "preferredEditor": "code" // diffs
+  }
+}
+`);
+  });
+
+  it('keeps tab indentation and CRLF line endings', () => {
+    const original = '{\r\n\t"ui": {\r\n\t\t"theme": "GitHub"\r\n\t}\r\n}\r\n';
+    const updated = updateJsoncText(original, { ui: { theme: 'GitHub' }, general: { vimMode: true } });
+
+    expect(updated).toBe('{\r\n\t"ui": {\r\n\t\t"theme": "GitHub"\r\n\t},\r\n\t"general": {\r\n\t\t"vimMode": true\r\n\t}\r\n}\r\n');
+  });
+
+  it('writes plain JSON for an empty file', () => {
+    expect(updateJsoncText('', { ui: { theme: 'GitHub' } })).toBe('{\n  "ui": {\n    "theme": "GitHub"\n  }\n}\n');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * JSONC (JSON with comments) helpers for reading and minimally rewriting settings files
+ */
+
+import { isDeepStrictEqual } from 'util';
+import {
+  parse,
+  parseTree,
+  findNodeAtLocation,
+  modify,
+  applyEdits,
+  printParseErrorCode,
+  type FormattingOptions,
+  type JSONPath,
+  type ParseError,
+} from 'jsonc-parser';
+
+/**
+ * Parse JSONC text (comments and trailing commas allowed) into a config object
+ */
+export function parseJsonc(content: string): Record<string, unknown> {
+  const errors: ParseError[] = [];
+  const value = parse(content, errors, { allowTrailingComma: true, disallowComments: false });
+
+  if (errors.length > 0) {
+    const details = errors
+      .map((e) => {
+        const line = content.slice(0, e.offset).split('\n').length;
+        return `${printParseErrorCode(e.error)} at line ${line}`;
+      })
+      .join('; ');
+    throw new Error(`Invalid JSON: ${details}`);
+  }
+
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error('Invalid settings file: top-level value must be an object');
+  }
+
+  return value as Record<string, unknown>;
+}
+
+/**
+ * Detect indentation and line endings of existing text
+ */
+function detectFormatting(text: string): FormattingOptions {
+  const eol = text.includes('\r\n') ? '\r\n' : '\n';
+  const indentMatch = text.match(/^([ \t]+)\S/m);
+  const indent = indentMatch ? indentMatch[1] : '  ';
+
+  return {
+    insertSpaces: !indent.startsWith('\t'),
+    tabSize: indent.startsWith('\t') ? 1 : indent.length,
+    eol,
+  };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Collect the minimal set of path-level replacements that turn one object into another.
+ * Objects present on both sides are compared key by key; anything else is replaced whole.
+ */
+function collectEdits(
+  oldValue: Record<string, unknown>,
+  newValue: Record<string, unknown>,
+  path: JSONPath = [],
+  out: Array<{ path: JSONPath; value: unknown }> = []
+): Array<{ path: JSONPath; value: unknown }> {
+  for (const key of Object.keys(oldValue)) {
+    if (!(key in newValue)) {
+      out.push({ path: [...path, key], value: undefined });
+    }
+  }
+
+  for (const [key, value] of Object.entries(newValue)) {
+    const previous = oldValue[key];
+    if (isPlainObject(previous) && isPlainObject(value)) {
+      collectEdits(previous, value, [...path, key], out);
+    } else if (!isDeepStrictEqual(previous, value)) {
+      out.push({ path: [...path, key], value });
+    }
+  }
+
+  return out;
+}
+
+const COMMENT_LINE = /^[ \t]*(\/\/[^\n]*|\/\*.*\*\/)[ \t]*\r?$/;
+const PROPERTY_LINE_END = /^[ \t]*(,?)[ \t]*(\/\/[^\n]*|\/\*.*?\*\/)?[ \t]*(\r?\n|$)/;
+
+/**
+ * Remove a property that sits on lines of its own, together with its comma, its trailing comment and
+ * the comment lines directly above it. jsonc-parser removes from the end of the previous property
+ * instead, which drops a comment trailing that property. Returns null for other layouts.
+ */
+function removePropertyLines(text: string, path: JSONPath): string | null {
+  const property = findNodeAtLocation(parseTree(text, [], { allowTrailingComma: true })!, path)?.parent;
+  const siblings = property?.parent?.children;
+  if (!property || property.type !== 'property' || !siblings) {
+    return null;
+  }
+
+  let start = text.lastIndexOf('\n', property.offset - 1) + 1;
+  if (text.slice(start, property.offset).trim() !== '') {
+    return null;
+  }
+  while (start > 0) {
+    const previousStart = text.lastIndexOf('\n', start - 2) + 1;
+    if (!COMMENT_LINE.test(text.slice(previousStart, start - 1))) {
+      break;
+    }
+    start = previousStart;
+  }
+
+  const end = property.offset + property.length;
+  const rest = text.slice(end).match(PROPERTY_LINE_END);
+  if (!rest) {
+    return null;
+  }
+
+  let result = text.slice(0, start) + text.slice(end + rest[0].length);
+
+  // Without a comma of its own the property was the last one, so the previous one's comma goes too
+  const index = siblings.indexOf(property);
+  if (!rest[1] && index > 0) {
+    const previous = siblings[index - 1];
+    const previousEnd = previous.offset + previous.length;
+    const comma = text.slice(previousEnd, start).match(/^[ \t]*,/);
+    if (comma) {
+      result = result.slice(0, previousEnd) + result.slice(previousEnd + comma[0].length);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Rewrite JSONC text so it represents newConfig, touching only the parts that changed.
+ * Comments, key order, indentation style and the trailing newline are preserved.
+ */
+export function updateJsoncText(original: string, newConfig: Record<string, unknown>): string {
+  if (!original.trim()) {
+    return `${JSON.stringify(newConfig, null, 2)}\n`;
+  }
+
+  const formattingOptions = detectFormatting(original);
+  let text = original;
+
+  for (const edit of collectEdits(parseJsonc(original), newConfig)) {
+    const removed = edit.value === undefined ? removePropertyLines(text, edit.path) : null;
+    text = removed ?? applyEdits(text, modify(text, edit.path, edit.value, { formattingOptions }));
+  }
+
+  return text;
+}
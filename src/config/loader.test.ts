@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, readdirSync, rmSync, statSync, chmodSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ConfigConflictError,
+  backupConfig,
+  listBackups,
+  pruneBackups,
+  readConfigSnapshot,
+  restoreBackup,
+  saveConfig,
+} from './loader.js';
+
+describe('settings file writes', () => {
+  let root: string;
+  let dir: string;
+  let settingsPath: string;
+  const savedHome = process.env.HOME;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'loader-test-'));
+    dir = join(root, '.gemini');
+    mkdirSync(dir, { recursive: true });
+    settingsPath = join(dir, 'settings.json');
+    process.env.HOME = root;
+  });
+
+  afterEach(() => {
+    process.env.HOME = savedHome;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const leftovers = () => readdirSync(dir).filter((entry) => entry.includes('.tmp-'));
+
+  it('writes through a temporary file and keeps comments and the file mode', () => {
+    writeFileSync(settingsPath, '{\n  // editor\n  "general": { "vimMode": false }\n}\n');
+    chmodSync(settingsPath, 0o600);
+
+    saveConfig({ general: { vimMode: true } }, 'user', undefined, readConfigSnapshot('user'));
+
+    expect(readFileSync(settingsPath, 'utf-8')).toBe('{\n  // editor\n  "general": { "vimMode": true }\n}\n');
+    expect(statSync(settingsPath).mode & 0o777).toBe(0o600);
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('refuses to save over a file edited after the snapshot and keeps the edit', () => {
+    writeFileSync(settingsPath, '{ "ui": { "theme": "Default" } }\n');
+    const snapshot = readConfigSnapshot('user');
+    const external = '{ "ui": { "theme": "Dracula" } }\n';
+    writeFileSync(settingsPath, external);
+
+    expect(() => saveConfig({ ui: { theme: 'GitHub' } }, 'user', undefined, snapshot)).toThrow(ConfigConflictError);
+    expect(readFileSync(settingsPath, 'utf-8')).toBe(external);
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('refuses to save when the file was created after the snapshot', () => {
+    const snapshot = readConfigSnapshot('user');
+    writeFileSync(settingsPath, '{ "ui": { "theme": "Dracula" } }\n');
+
+    expect(() => saveConfig({ ui: { theme: 'GitHub' } }, 'user', undefined, snapshot)).toThrow(ConfigConflictError);
+    expect(readFileSync(settingsPath, 'utf-8')).toBe('{ "ui": { "theme": "Dracula" } }\n');
+  });
+
+  it('refuses to save when the file was deleted after the snapshot', () => {
+    writeFileSync(settingsPath, '{}\n');
+    const snapshot = readConfigSnapshot('user');
+    rmSync(settingsPath);
+
+    expect(() => saveConfig({ ui: { theme: 'GitHub' } }, 'user', undefined, snapshot)).toThrow(ConfigConflictError);
+    expect(readdirSync(dir)).toEqual([]);
+  });
+
+  it('restores a backup verbatim, keeps the file mode and backs up the replaced file', async () => {
+    const original = '{\n  // restored comment\n  "ui": { "theme": "GitHub" },\n}\n';
+    writeFileSync(settingsPath, original);
+    const backup = backupConfig('user')!;
+    writeFileSync(settingsPath, '{ "ui": { "theme": "broken" ');
+    chmodSync(settingsPath, 0o600);
+
+    const result = await restoreBackup(backup, 'user');
+
+    expect(readFileSync(settingsPath, 'utf-8')).toBe(original);
+    expect(statSync(settingsPath).mode & 0o777).toBe(0o600);
+    expect(result.backupPath).not.toBeNull();
+    expect(readFileSync(result.backupPath!, 'utf-8')).toBe('{ "ui": { "theme": "broken" ');
+    expect(leftovers()).toEqual([]);
+  });
+
+  it('keeps backups taken within the same millisecond apart', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-19T08:30:00.123Z'));
+    try {
+      const paths = ['first', 'second', 'third'].map((value) => {
+        writeFileSync(settingsPath, JSON.stringify({ ui: { theme: value } }));
+        return backupConfig('user')!;
+      });
+
+      expect(paths).toEqual([
+        `${settingsPath}.backup-2026-10-19T08-30-00-123Z`,
+        `${settingsPath}.backup-2026-10-19T08-30-00-123Z-1`,
+        `${settingsPath}.backup-2026-10-19T08-30-00-123Z-2`,
+      ]);
+      expect(paths.map((path) => JSON.parse(readFileSync(path, 'utf-8')).ui.theme)).toEqual(['first', 'second', 'third']);
+      expect(listBackups('user').map((backup) => [backup.path, backup.timestamp])).toEqual(
+        [...paths].reverse().map((path) => [path, '2026-10-19T08:30:00.123Z'])
+      );
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('prunes by the limits the policy sets, keeping old backups under a count-only limit', () => {
+    const days = 24 * 60 * 60 * 1000;
+    const now = Date.now();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    let paths: string[];
+    try {
+      paths = [100, 90, 1, 0].map((age) => {
+        vi.setSystemTime(now - age * days);
+        writeFileSync(settingsPath, JSON.stringify({ ui: { theme: `age-${age}` } }));
+        return backupConfig('user')!;
+      });
+    } finally {
+      vi.useRealTimers();
+    }
+    const names = (backups: { path: string }[]) => backups.map((backup) => paths.indexOf(backup.path));
+
+    const countOnly = pruneBackups('user', { keep: 3 }, undefined, true);
+    expect(names(countOnly.kept)).toEqual([3, 2, 1]);
+    expect(names(countOnly.removed)).toEqual([0]);
+
+    const ageOnly = pruneBackups('user', { maxAgeDays: 30 }, undefined, true);
+    expect(names(ageOnly.kept)).toEqual([3, 2]);
+
+    const both = pruneBackups('user', { keep: 1, maxAgeDays: 30 }, undefined, true);
+    expect(names(both.kept)).toEqual([3]);
+
+    const defaults = pruneBackups('user');
+    expect(names(defaults.kept)).toEqual([3, 2]);
+    expect(listBackups('user').map((backup) => backup.path)).toEqual([paths[3], paths[2]]);
+  });
+});
@@ -2,13 +2,110 @@
  * Gemini CLI configuration file loader
  */
 
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import {
+  readFileSync,
+  writeFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+  renameSync,
+  chmodSync,
+} from 'fs';
+import { join, dirname, basename, resolve } from 'path';
 import { homedir } from 'os';
+import { createHash, randomBytes } from 'crypto';
+import { parseJsonc, updateJsoncText } from './jsonc.js';
 import { logger } from '../utils/logger.js';
 
 export type ConfigScope = 'user' | 'project';
 
+/**
+ * Read-only settings files deployed by administrators: "systemDefaults" sit below user settings,
+ * "system" overrides user and project settings
+ */
+export type SystemScope = 'systemDefaults' | 'system';
+
+export interface BackupInfo {
+  path: string;
+  scope: ConfigScope;
+  timestamp: string;
+  size: number;
+}
+
+export interface BackupRetentionPolicy {
+  keep?: number;
+  maxAgeDays?: number;
+}
+
+/**
+ * State of a settings file at the time it was read, used to detect concurrent modification
+ */
+export interface ConfigSnapshot {
+  configPath: string;
+  config: Record<string, unknown> | null;
+  exists: boolean;
+  hash: string | null;
+}
+
+/**
+ * Thrown when a settings file changed between reading and writing it
+ */
+export class ConfigConflictError extends Error {
+  constructor(public readonly configPath: string) {
+    super(
+      `Configuration file ${configPath} was modified by another process since it was read; ` +
+        'no changes were written. Retry the edit.'
+    );
+    this.name = 'ConfigConflictError';
+  }
+}
+
+export const DEFAULT_BACKUP_RETENTION: Required<BackupRetentionPolicy> = {
+  keep: 10,
+  maxAgeDays: 30,
+};
+
+/**
+ * Find the workspace root: the nearest directory at or above startDir containing a .gemini/ directory
+ * or .git. The home directory's .gemini/ holds user settings, so it doesn't mark a workspace, and the
+ * search doesn't leave the home directory. Falls back to startDir.
+ */
+export function findWorkspaceRoot(startDir: string = process.cwd()): string {
+  const start = resolve(startDir);
+  const home = resolve(homedir());
+  let current = start;
+
+  for (;;) {
+    if (existsSync(join(current, '.git'))) {
+      return current;
+    }
+    if (current !== home && existsSync(join(current, '.gemini')) && statSync(join(current, '.gemini')).isDirectory()) {
+      return current;
+    }
+    const parent = dirname(current);
+    if (parent === current || current === home) {
+      return start;
+    }
+    current = parent;
+  }
+}
+
+/**
+ * Resolve the project directory for project-scope settings: the given directory, or the workspace root
+ */
+export function resolveProjectDir(projectDir?: string): string {
+  if (!projectDir) {
+    return findWorkspaceRoot();
+  }
+  const directory = resolve(projectDir);
+  if (!existsSync(directory) || !statSync(directory).isDirectory()) {
+    throw new Error(`Project directory ${directory} does not exist`);
+  }
+  return directory;
+}
+
 /**
  * Get the path to a Gemini CLI settings file
  */
@@ -17,9 +114,27 @@ export function getConfigPath(scope: ConfigScope, projectDir?: string): string {
     return join(homedir(), '.gemini', 'settings.json');
   } else {
     // Project scope
-    const baseDir = projectDir || process.cwd();
-    return join(baseDir, '.gemini', 'settings.json');
+    return join(resolveProjectDir(projectDir), '.gemini', 'settings.json');
+  }
+}
+
+/**
+ * Get the path to a system settings file, honoring GEMINI_CLI_SYSTEM_SETTINGS_PATH and
+ * GEMINI_CLI_SYSTEM_DEFAULTS_PATH like Gemini CLI does
+ */
+export function getSystemConfigPath(scope: SystemScope): string {
+  const systemDir =
+    process.platform === 'darwin'
+      ? '/Library/Application Support/GeminiCli'
+      : process.platform === 'win32'
+        ? 'C:\\ProgramData\\gemini-cli'
+        : '/etc/gemini-cli';
+  const systemPath = process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH || join(systemDir, 'settings.json');
+
+  if (scope === 'system') {
+    return systemPath;
   }
+  return process.env.GEMINI_CLI_SYSTEM_DEFAULTS_PATH || join(dirname(systemPath), 'system-defaults.json');
 }
 
 /**
@@ -27,8 +142,18 @@ export function getConfigPath(scope: ConfigScope, projectDir?: string): string {
  * Returns null if file doesn't exist
  */
 export function loadConfig(scope: ConfigScope, projectDir?: string): Record<string, unknown> | null {
-  const configPath = getConfigPath(scope, projectDir);
+  return loadConfigFile(getConfigPath(scope, projectDir));
+}
 
+/**
+ * Load a system settings file
+ * Returns null if file doesn't exist
+ */
+export function loadSystemConfig(scope: SystemScope): Record<string, unknown> | null {
+  return loadConfigFile(getSystemConfigPath(scope));
+}
+
+function loadConfigFile(configPath: string): Record<string, unknown> | null {
   try {
     if (!existsSync(configPath)) {
       logger.debug(`Config file not found: ${configPath}`);
@@ -43,7 +168,8 @@ export function loadConfig(scope: ConfigScope, projectDir?: string): Record<stri
       return {};
     }
 
-    const config = JSON.parse(content);
+    // Settings files may contain comments and trailing commas
+    const config = parseJsonc(content);
     logger.debug(`Loaded config from: ${configPath}`);
     return config;
   } catch (error) {
@@ -53,14 +179,60 @@ export function loadConfig(scope: ConfigScope, projectDir?: string): Record<stri
   }
 }
 
+function hashContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+function readFileState(configPath: string): Pick<ConfigSnapshot, 'exists' | 'hash'> {
+  if (!existsSync(configPath)) {
+    return { exists: false, hash: null };
+  }
+  return { exists: true, hash: hashContent(readFileSync(configPath, 'utf-8')) };
+}
+
+/**
+ * Read a settings file together with the information needed to detect later modification
+ */
+export function readConfigSnapshot(scope: ConfigScope, projectDir?: string): ConfigSnapshot {
+  const configPath = getConfigPath(scope, projectDir);
+  const config = loadConfig(scope, projectDir);
+  return { configPath, config, ...readFileState(configPath) };
+}
+
+/**
+ * Write a file through a temporary file renamed into place, so a crash cannot leave it half-written.
+ * A replaced file keeps its mode.
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+  const tempPath = `${filePath}.tmp-${process.pid}-${randomBytes(4).toString('hex')}`;
+
+  try {
+    writeFileSync(tempPath, content, 'utf-8');
+    if (existsSync(filePath)) {
+      chmodSync(tempPath, statSync(filePath).mode);
+    }
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      unlinkSync(tempPath);
+    }
+    throw error;
+  }
+}
+
 /**
  * Save configuration to file
- * Creates directory and file if they don't exist
+ * Creates directory and file if they don't exist.
+ * Existing files are updated with minimal text edits so comments and formatting survive;
+ * raw file content given as a string is written as-is.
+ * The file is written to a temporary file and renamed into place so a crash cannot leave it half-written.
+ * When a snapshot is given, the save is aborted with a ConfigConflictError if the file changed since then.
  */
 export function saveConfig(
-  config: Record<string, unknown>,
+  config: Record<string, unknown> | string,
   scope: ConfigScope,
-  projectDir?: string
+  projectDir?: string,
+  snapshot?: ConfigSnapshot
 ): void {
   const configPath = getConfigPath(scope, projectDir);
 
@@ -72,34 +244,79 @@ export function saveConfig(
       logger.debug(`Created config directory: ${dir}`);
     }
 
-    // Write config file with pretty formatting
-    const content = JSON.stringify(config, null, 2);
-    writeFileSync(configPath, content, 'utf-8');
+    const exists = existsSync(configPath);
+    const original = exists ? readFileSync(configPath, 'utf-8') : '';
+
+    if (snapshot && (snapshot.exists !== exists || (exists && snapshot.hash !== hashContent(original)))) {
+      throw new ConfigConflictError(configPath);
+    }
+
+    writeFileAtomic(configPath, typeof config === 'string' ? config : updateJsoncText(original, config));
 
     logger.info(`Saved config to: ${configPath}`);
   } catch (error) {
+    if (error instanceof ConfigConflictError) {
+      logger.warn(error.message);
+      throw error;
+    }
     const message = error instanceof Error ? error.message : String(error);
     logger.error(`Failed to save config to ${configPath}:`, message);
     throw new Error(`Failed to save configuration: ${message}`);
   }
 }
 
+const writeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Serialize read-modify-write operations on a settings file within this process
+ */
+export function withConfigWriteLock<T>(configPath: string, task: () => T | Promise<T>): Promise<T> {
+  const previous = writeQueues.get(configPath) ?? Promise.resolve();
+  const run = previous.then(task, task);
+  const settled = run.catch(() => undefined);
+
+  writeQueues.set(configPath, settled);
+  settled.then(() => {
+    if (writeQueues.get(configPath) === settled) {
+      writeQueues.delete(configPath);
+    }
+  });
+
+  return run;
+}
+
 /**
  * Create a backup of a configuration file
  */
 export function backupConfig(scope: ConfigScope, projectDir?: string): string | null {
-  const configPath = getConfigPath(scope, projectDir);
+  return backupFile(getConfigPath(scope, projectDir));
+}
 
+/**
+ * Copy a file next to itself with a timestamped ".backup-" suffix.
+ * A counter is appended when a backup with the same timestamp already exists.
+ */
+export function backupFile(configPath: string): string | null {
   if (!existsSync(configPath)) {
     return null;
   }
 
   try {
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const backupPath = `${configPath}.backup-${timestamp}`;
-
     const content = readFileSync(configPath, 'utf-8');
-    writeFileSync(backupPath, content, 'utf-8');
+
+    let backupPath = `${configPath}.backup-${timestamp}`;
+    for (let sequence = 1; ; sequence++) {
+      try {
+        writeFileSync(backupPath, content, { encoding: 'utf-8', flag: 'wx' });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        backupPath = `${configPath}.backup-${timestamp}-${sequence}`;
+      }
+    }
 
     logger.info(`Created backup: ${backupPath}`);
     return backupPath;
@@ -117,3 +334,128 @@ export function configExists(scope: ConfigScope, projectDir?: string): boolean {
   const configPath = getConfigPath(scope, projectDir);
   return existsSync(configPath);
 }
+
+/**
+ * Convert the timestamp suffix of a backup file name back to an ISO date and its collision counter
+ */
+function parseBackupTimestamp(suffix: string): { timestamp: string; sequence: number } | null {
+  const match = suffix.match(/^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z(?:-(\d+))?$/);
+  if (!match) {
+    return null;
+  }
+  return {
+    timestamp: `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z`,
+    sequence: match[6] ? Number(match[6]) : 0,
+  };
+}
+
+/**
+ * List backups of a configuration file, newest first
+ */
+export function listBackups(scope: ConfigScope, projectDir?: string): BackupInfo[] {
+  const configPath = getConfigPath(scope, projectDir);
+  const dir = dirname(configPath);
+  const prefix = `${basename(configPath)}.backup-`;
+
+  if (!existsSync(dir)) {
+    return [];
+  }
+
+  const backups: Array<BackupInfo & { sequence: number }> = [];
+
+  for (const entry of readdirSync(dir)) {
+    if (!entry.startsWith(prefix)) {
+      continue;
+    }
+
+    const parsed = parseBackupTimestamp(entry.slice(prefix.length));
+    if (!parsed) {
+      logger.debug(`Skipping file with unrecognized backup name: ${entry}`);
+      continue;
+    }
+
+    const path = join(dir, entry);
+    backups.push({ path, scope, timestamp: parsed.timestamp, sequence: parsed.sequence, size: statSync(path).size });
+  }
+
+  return backups
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp) || b.sequence - a.sequence)
+    .map(({ sequence: _sequence, ...backup }) => backup);
+}
+
+/**
+ * Read the raw content of a backup that belongs to the given scope
+ */
+export function readBackup(backupPath: string, scope: ConfigScope, projectDir?: string): string {
+  const backup = listBackups(scope, projectDir).find((b) => b.path === backupPath);
+  if (!backup) {
+    throw new Error(`Not a ${scope} settings backup: ${backupPath}`);
+  }
+  return readFileSync(backup.path, 'utf-8');
+}
+
+/**
+ * Restore a configuration file from one of its backups.
+ * The current file is backed up first so the restore can itself be undone.
+ */
+export function restoreBackup(
+  backupPath: string,
+  scope: ConfigScope,
+  projectDir?: string
+): Promise<{ configPath: string; restoredFrom: string; backupPath: string | null }> {
+  const configPath = getConfigPath(scope, projectDir);
+
+  return withConfigWriteLock(configPath, () => {
+    const content = readBackup(backupPath, scope, projectDir);
+
+    // Fail before touching anything if the backup is not valid JSON
+    if (content.trim()) {
+      parseJsonc(content);
+    }
+
+    // The current file may be the broken one being replaced, so it is hashed but not parsed
+    const snapshot: ConfigSnapshot = { configPath, config: null, ...readFileState(configPath) };
+    const currentBackup = backupConfig(scope, projectDir);
+
+    saveConfig(content, scope, projectDir, snapshot);
+    logger.info(`Restored ${configPath} from ${backupPath}`);
+    return { configPath, restoredFrom: backupPath, backupPath: currentBackup };
+  });
+}
+
+/**
+ * Delete backups that fall outside the retention policy.
+ * Only the limits the policy sets apply; an empty policy applies both defaults. With both limits,
+ * a backup is kept only if it is among the newest `keep` backups and younger than `maxAgeDays`.
+ */
+export function pruneBackups(
+  scope: ConfigScope,
+  policy: BackupRetentionPolicy = {},
+  projectDir?: string,
+  dryRun: boolean = false
+): { kept: BackupInfo[]; removed: BackupInfo[] } {
+  const limits = policy.keep === undefined && policy.maxAgeDays === undefined ? DEFAULT_BACKUP_RETENTION : policy;
+  const keep = limits.keep ?? Infinity;
+  const cutoff = limits.maxAgeDays === undefined ? -Infinity : Date.now() - limits.maxAgeDays * 24 * 60 * 60 * 1000;
+
+  const kept: BackupInfo[] = [];
+  const removed: BackupInfo[] = [];
+
+  listBackups(scope, projectDir).forEach((backup, index) => {
+    if (index < keep && Date.parse(backup.timestamp) >= cutoff) {
+      kept.push(backup);
+    } else {
+      removed.push(backup);
+    }
+  });
+
+  if (!dryRun) {
+    for (const backup of removed) {
+      unlinkSync(backup.path);
+      logger.debug(`Deleted backup: ${backup.path}`);
+    }
+    logger.info(`Pruned ${removed.length} ${scope} backups (kept ${kept.length})`);
+  }
+
+  return { kept, removed };
+}
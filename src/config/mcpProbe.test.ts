@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { probeMcpServer } from './mcpProbe.js';
+
+// Minimal stdio MCP server; the first argument selects its behavior
+const STUB_SERVER = `
+const mode = process.argv[2];
+
+if (mode === 'exit') {
+  process.stderr.write('boom: missing configuration\\n');
+  process.exit(3);
+}
+
+if (mode === 'hang') {
+  // Never answer and ignore stdin closing, so only a kill stops it
+  process.stdin.resume();
+  process.stdin.on('end', () => {});
+  setInterval(() => {}, 1000);
+} else {
+  const reply = (id, result) => process.stdout.write(JSON.stringify({ jsonrpc: '2.0', id, result }) + '\\n');
+  let buffer = '';
+  process.stdin.on('data', (chunk) => {
+    buffer += chunk;
+    let newline;
+    while ((newline = buffer.indexOf('\\n')) >= 0) {
+      const message = JSON.parse(buffer.slice(0, newline));
+      buffer = buffer.slice(newline + 1);
+      if (message.method === 'initialize') {
+        reply(message.id, {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: {}, prompts: {} },
+          serverInfo: { name: 'stub', version: '1.2.3' },
+        });
+      } else if (message.method === 'tools/list') {
+        reply(message.id, { tools: [{ name: 'echo', description: 'Echo the input', inputSchema: { type: 'object' } }] });
+      } else if (message.method === 'prompts/list') {
+        reply(message.id, { prompts: [{ name: 'greet' }] });
+      }
+    }
+  });
+  process.stdin.on('end', () => process.exit(0));
+}
+`;
+
+describe('probeMcpServer (stdio)', () => {
+  let dir: string;
+  let stub: string;
+
+  beforeAll(() => {
+    dir = mkdtempSync(join(tmpdir(), 'mcp-probe-test-'));
+    stub = join(dir, 'stub-server.mjs');
+    writeFileSync(stub, STUB_SERVER);
+  });
+
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reports tools and prompts of a healthy server', async () => {
+    const result = await probeMcpServer('stub', { command: process.execPath, args: [stub, 'healthy'] }, { timeoutMs: 5_000 });
+
+    expect(result.error).toBeUndefined();
+    expect(result.healthy).toBe(true);
+    expect(result.phase).toBe('done');
+    expect(result.transport).toBe('stdio');
+    expect(result.server).toEqual({ name: 'stub', version: '1.2.3' });
+    expect(result.capabilities).toEqual(expect.arrayContaining(['tools', 'prompts']));
+    expect(result.tools).toEqual([{ name: 'echo', description: 'Echo the input' }]);
+    expect(result.prompts).toEqual([{ name: 'greet' }]);
+    expect(Object.keys(result.timings).sort()).toEqual(['connect', 'initialize', 'listPrompts', 'listTools']);
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('reports a command that does not exist', async () => {
+    const result = await probeMcpServer('missing', { command: join(dir, 'no-such-server') }, { timeoutMs: 5_000 });
+
+    expect(result.healthy).toBe(false);
+    expect(result.phase).toBe('connect');
+    expect(result.error).toMatch(/ENOENT/);
+  });
+
+  it('reports stderr and the exit code of a server that exits during startup', async () => {
+    const result = await probeMcpServer('crash', { command: process.execPath, args: [stub, 'exit'] }, { timeoutMs: 5_000 });
+
+    expect(result.healthy).toBe(false);
+    expect(result.phase).toBe('initialize');
+    expect(result.exitCode).toBe(3);
+    expect(result.stderr).toContain('boom: missing configuration');
+  });
+
+  it('times out a server that never answers and kills it', async () => {
+    const result = await probeMcpServer('hang', { command: process.execPath, args: [stub, 'hang'] }, { timeoutMs: 500 });
+
+    expect(result.healthy).toBe(false);
+    expect(result.phase).toBe('initialize');
+    expect(result.error).toMatch(/timed out/i);
+    expect(result.signal).toBe('SIGKILL');
+    expect(result.durationMs).toBeLessThan(5_000);
+  });
+});
@@ -0,0 +1,340 @@
+/**
+ * Health probe for configured MCP servers
+ */
+
+import { spawn, type ChildProcess } from 'child_process';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ReadBuffer, serializeMessage } from '@modelcontextprotocol/sdk/shared/stdio.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { getMcpTransport, type McpTransport } from './mcpSchema.js';
+import { resolveEnvVars } from './envVars.js';
+
+// Used when neither the probe request nor the server entry sets a timeout
+export const DEFAULT_PROBE_TIMEOUT_MS = 10_000;
+
+// Keep only the tail of stderr so a chatty server cannot bloat the report
+const MAX_STDERR_LENGTH = 8_192;
+
+export type McpProbePhase = 'connect' | 'initialize' | 'listTools' | 'listPrompts' | 'done';
+
+export interface McpProbeResult {
+  name: string;
+  transport: McpTransport | null;
+  healthy: boolean;
+  // Last phase reached; on failure, the phase that failed
+  phase: McpProbePhase;
+  timeoutMs: number;
+  durationMs: number;
+  timings: Partial<Record<Exclude<McpProbePhase, 'done'>, number>>;
+  server?: { name: string; version: string };
+  capabilities?: string[];
+  tools: Array<{ name: string; description?: string }>;
+  prompts: Array<{ name: string; description?: string }>;
+  stderr?: string;
+  exitCode?: number | null;
+  signal?: string | null;
+  unresolvedEnvVars?: string[];
+  error?: string;
+}
+
+export interface McpProbeOptions {
+  timeoutMs?: number;
+  env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Minimal stdio client transport.
+ * The SDK's StdioClientTransport does not expose the exit code of the child,
+ * which is the most useful signal when a server fails to start.
+ */
+class ProbeStdioTransport implements Transport {
+  private child?: ChildProcess;
+  private started?: Promise<void>;
+  private readBuffer = new ReadBuffer();
+  stderr = '';
+  exit?: { code: number | null; signal: string | null };
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private readonly params: { command: string; args: string[]; env: NodeJS.ProcessEnv; cwd?: string }) {}
+
+  /**
+   * Spawn the server. Safe to call more than once, so the probe can time
+   * spawning separately before Client.connect() starts the transport again.
+   */
+  start(): Promise<void> {
+    this.started ??= this.spawnServer();
+    return this.started;
+  }
+
+  private spawnServer(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.params.command, this.params.args, {
+        env: this.params.env,
+        cwd: this.params.cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+        shell: false,
+      });
+      this.child = child;
+
+      child.on('error', (error) => {
+        reject(error);
+        this.onerror?.(error);
+      });
+      child.on('spawn', () => resolve());
+      child.on('exit', (code, signal) => {
+        this.exit = { code, signal };
+      });
+      child.on('close', () => {
+        this.child = undefined;
+        this.onclose?.();
+      });
+
+      child.stdin?.on('error', (error) => this.onerror?.(error));
+      child.stdout?.on('data', (chunk: Buffer) => {
+        this.readBuffer.append(chunk);
+        this.processReadBuffer();
+      });
+      child.stderr?.on('data', (chunk: Buffer) => {
+        this.stderr = (this.stderr + chunk.toString()).slice(-MAX_STDERR_LENGTH);
+      });
+    });
+  }
+
+  private processReadBuffer(): void {
+    for (;;) {
+      try {
+        const message = this.readBuffer.readMessage();
+        if (message === null) {
+          break;
+        }
+        this.onmessage?.(message);
+      } catch (error) {
+        this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+
+  send(message: JSONRPCMessage): Promise<void> {
+    return new Promise((resolve) => {
+      const stdin = this.child?.stdin;
+      if (!stdin) {
+        throw new Error('Server process is not running');
+      }
+      if (stdin.write(serializeMessage(message))) {
+        resolve();
+      } else {
+        stdin.once('drain', resolve);
+      }
+    });
+  }
+
+  /**
+   * Close stdin and give the server a moment to exit before killing it
+   */
+  async close(): Promise<void> {
+    const child = this.child;
+    this.readBuffer.clear();
+    if (!child) {
+      return;
+    }
+
+    const exited = new Promise<void>((resolve) => child.once('close', () => resolve()));
+    child.stdin?.end();
+    const graceful = await Promise.race([exited.then(() => true), delay(1_000).then(() => false)]);
+    if (!graceful) {
+      child.kill('SIGKILL');
+      await Promise.race([exited, delay(1_000)]);
+    }
+  }
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms).unref());
+}
+
+/**
+ * Reject with a timeout error if the task does not settle in time
+ */
+function withTimeout<T>(task: Promise<T>, ms: number, what: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms during ${what}`)), ms);
+  });
+  return Promise.race([task, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Resolve $VAR references in the fields the CLI interpolates, reporting unset variables
+ */
+function resolveServerConfig(
+  config: Record<string, unknown>,
+  env: NodeJS.ProcessEnv
+): { config: Record<string, unknown>; unresolved: string[] } {
+  const resolved: Record<string, unknown> = { ...config };
+  const unresolved = new Set<string>();
+  const resolve = (value: string): string => {
+    const result = resolveEnvVars(value, env);
+    result.unresolved.forEach((name) => unresolved.add(name));
+    return result.resolved;
+  };
+
+  for (const field of ['command', 'args', 'env', 'cwd', 'url', 'httpUrl', 'headers']) {
+    const value = config[field];
+    if (typeof value === 'string') {
+      resolved[field] = resolve(value);
+    } else if (Array.isArray(value)) {
+      resolved[field] = value.map((item) => (typeof item === 'string' ? resolve(item) : item));
+    } else if (typeof value === 'object' && value !== null) {
+      resolved[field] = Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, typeof item === 'string' ? resolve(item) : item])
+      );
+    }
+  }
+
+  return { config: resolved, unresolved: Array.from(unresolved) };
+}
+
+/**
+ * Create the client transport for a server entry
+ */
+function createTransport(
+  transport: McpTransport,
+  config: Record<string, unknown>,
+  env: NodeJS.ProcessEnv
+): Transport {
+  const headers = (config.headers ?? {}) as Record<string, string>;
+
+  switch (transport) {
+    case 'stdio':
+      return new ProbeStdioTransport({
+        command: config.command as string,
+        args: (config.args ?? []) as string[],
+        env: { ...env, ...((config.env ?? {}) as Record<string, string>) },
+        cwd: config.cwd as string | undefined,
+      });
+    case 'sse':
+      return new SSEClientTransport(new URL(config.url as string), { requestInit: { headers } });
+    case 'http':
+      return new StreamableHTTPClientTransport(new URL(config.httpUrl as string), { requestInit: { headers } });
+  }
+}
+
+/**
+ * Connect to an MCP server the way Gemini CLI would and report what it exposes.
+ * The timeout covers the whole probe; it defaults to the server's own timeout setting.
+ */
+export async function probeMcpServer(
+  name: string,
+  rawConfig: Record<string, unknown>,
+  options: McpProbeOptions = {}
+): Promise<McpProbeResult> {
+  const env = options.env ?? process.env;
+  const configuredTimeout = typeof rawConfig.timeout === 'number' ? rawConfig.timeout : undefined;
+  const timeoutMs = options.timeoutMs ?? configuredTimeout ?? DEFAULT_PROBE_TIMEOUT_MS;
+  const transportType = getMcpTransport(rawConfig);
+  const { config, unresolved } = resolveServerConfig(rawConfig, env);
+
+  const result: McpProbeResult = {
+    name,
+    transport: transportType,
+    healthy: false,
+    phase: 'connect',
+    timeoutMs,
+    durationMs: 0,
+    timings: {},
+    tools: [],
+    prompts: [],
+    ...(unresolved.length > 0 ? { unresolvedEnvVars: unresolved } : {}),
+  };
+
+  if (!transportType) {
+    result.error = 'Server entry has no command, url or httpUrl';
+    return result;
+  }
+
+  const started = Date.now();
+  const deadline = started + timeoutMs;
+  let phaseStarted = started;
+  const finishPhase = (phase: Exclude<McpProbePhase, 'done'>, next: McpProbePhase) => {
+    const now = Date.now();
+    result.timings[phase] = now - phaseStarted;
+    phaseStarted = now;
+    result.phase = next;
+  };
+  const remaining = () => Math.max(deadline - Date.now(), 1);
+
+  const client = new Client({ name: 'gemini-cli-config-probe', version: '1.0.0' });
+  let transport: Transport | undefined;
+
+  try {
+    transport = createTransport(transportType, config, env);
+
+    if (transport instanceof ProbeStdioTransport) {
+      // Split spawning from the handshake so the report shows which one failed
+      await withTimeout(transport.start(), remaining(), 'connect');
+      finishPhase('connect', 'initialize');
+    } else {
+      result.phase = 'initialize';
+    }
+
+    await withTimeout(client.connect(transport, { timeout: remaining() }), remaining(), 'initialize');
+    finishPhase('initialize', 'listTools');
+
+    const capabilities = client.getServerCapabilities() ?? {};
+    const version = client.getServerVersion();
+    result.capabilities = Object.keys(capabilities);
+    if (version) {
+      result.server = { name: version.name, version: version.version };
+    }
+
+    if (capabilities.tools) {
+      const { tools } = await withTimeout(client.listTools(undefined, { timeout: remaining() }), remaining(), 'listTools');
+      result.tools = tools.map((tool) => ({ name: tool.name, ...(tool.description ? { description: tool.description } : {}) }));
+    }
+    finishPhase('listTools', 'listPrompts');
+
+    if (capabilities.prompts) {
+      const { prompts } = await withTimeout(
+        client.listPrompts(undefined, { timeout: remaining() }),
+        remaining(),
+        'listPrompts'
+      );
+      result.prompts = prompts.map((prompt) => ({
+        name: prompt.name,
+        ...(prompt.description ? { description: prompt.description } : {}),
+      }));
+    }
+    finishPhase('listPrompts', 'done');
+
+    result.healthy = true;
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+  } finally {
+    try {
+      await client.close();
+    } catch {
+      // The connection may never have been established
+    }
+    if (transport instanceof ProbeStdioTransport) {
+      await transport.close();
+      if (transport.stderr) {
+        result.stderr = transport.stderr;
+      }
+      if (transport.exit) {
+        result.exitCode = transport.exit.code;
+        result.signal = transport.exit.signal;
+      }
+    } else if (transport) {
+      await transport.close().catch(() => {});
+    }
+    result.durationMs = Date.now() - started;
+  }
+
+  return result;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { mcpServerSchema, parseShellArgs } from './mcpSchema.js';
+
+describe('parseShellArgs', () => {
+  it.each([
+    ['npx -y server', ['npx', '-y', 'server']],
+    ['  spaced \t out  ', ['spaced', 'out']],
+    ['', []],
+    [`node 'my server.js'`, ['node', 'my server.js']],
+    [`node "my server.js"`, ['node', 'my server.js']],
+    [`echo 'a "b" \\c'`, ['echo', 'a "b" \\c']],
+    [`echo "a 'b' \\"c\\" \\$HOME \\n"`, ['echo', `a 'b' "c" $HOME \\n`]],
+    ['echo my\\ file \\"x\\"', ['echo', 'my file', '"x"']],
+    [`--flag=" a b "`, ['--flag= a b ']],
+    [`pre'fix'"suffix"`, ['prefixsuffix']],
+    [`empty '' ""`, ['empty', '', '']],
+    ['trailing\\', ['trailing\\']],
+  ])('%s', (input, expected) => {
+    expect(parseShellArgs(input)).toEqual(expected);
+  });
+
+  it.each([
+    [`node 'server.js`, 'Unterminated single quote'],
+    [`node "server.js`, 'Unterminated double quote'],
+    [`node "a\\"`, 'Unterminated double quote'],
+  ])('rejects %s', (input, message) => {
+    expect(() => parseShellArgs(input)).toThrow(message);
+  });
+});
+
+describe('mcpServerSchema', () => {
+  it.each([
+    [{ command: 'npx', args: ['-y', 'server'], env: { TOKEN: '$TOKEN' }, cwd: '/srv' }],
+    [{ url: 'http://localhost:8080/sse', headers: { Authorization: 'Bearer $TOKEN' } }],
+    [{ httpUrl: 'https://example.com/mcp', timeout: 30000 }],
+    [{ command: 'server', futureOption: true }],
+  ])('accepts %j', (server) => {
+    expect(mcpServerSchema.safeParse(server).success).toBe(true);
+  });
+
+  it.each([
+    [{}, 'exactly one of command, url or httpUrl is required (found none)'],
+    [{ args: ['x'] }, 'exactly one of command, url or httpUrl is required (found none)'],
+    [{ command: 'server', url: 'http://localhost/sse' }, 'exactly one of command, url or httpUrl is required (found command, url)'],
+    [{ url: 'http://a/sse', httpUrl: 'http://a/mcp' }, 'exactly one of command, url or httpUrl is required (found url, httpUrl)'],
+    [{ url: 'http://localhost/sse', args: ['x'] }, 'args only applies to stdio servers (with a command)'],
+    [{ httpUrl: 'http://localhost/mcp', env: {} }, 'env only applies to stdio servers (with a command)'],
+    [{ command: 'server', headers: { A: 'b' } }, 'headers only apply to remote servers (with url or httpUrl)'],
+    [{ command: '' }, 'at least 1 character'],
+    [{ url: 'not a url' }, 'Invalid url'],
+  ])('rejects %j', (server, message) => {
+    const result = mcpServerSchema.safeParse(server);
+    expect(result.success).toBe(false);
+    expect(result.error?.issues.map((issue) => issue.message)).toEqual(expect.arrayContaining([expect.stringContaining(message)]));
+  });
+});
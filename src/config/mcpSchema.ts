@@ -0,0 +1,131 @@
+/**
+ * Schema and helpers for entries under mcpServers
+ */
+
+import { z } from 'zod';
+
+export type McpTransport = 'stdio' | 'sse' | 'http';
+
+// Fields that only make sense for servers launched as a local process
+const STDIO_ONLY_FIELDS = ['args', 'env', 'cwd'] as const;
+
+/**
+ * Schema for a single MCP server entry.
+ * Exactly one transport is required: `command` (stdio), `url` (SSE) or `httpUrl` (streamable HTTP).
+ * Unknown fields are allowed so newer Gemini CLI options are not rejected.
+ */
+export const mcpServerSchema = z
+  .object({
+    command: z.string().min(1).optional(),
+    args: z.array(z.string()).optional(),
+    env: z.record(z.string()).optional(),
+    cwd: z.string().optional(),
+    url: z.string().url().optional(),
+    httpUrl: z.string().url().optional(),
+    headers: z.record(z.string()).optional(),
+    timeout: z.number().int().positive().optional(),
+    trust: z.boolean().optional(),
+    includeTools: z.array(z.string()).optional(),
+    excludeTools: z.array(z.string()).optional(),
+    description: z.string().optional(),
+  })
+  .passthrough()
+  .superRefine((server, ctx) => {
+    const transports = (['command', 'url', 'httpUrl'] as const).filter((key) => server[key] !== undefined);
+
+    if (transports.length !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `exactly one of command, url or httpUrl is required (found ${transports.length === 0 ? 'none' : transports.join(', ')})`,
+      });
+    }
+
+    if (server.command === undefined) {
+      for (const field of STDIO_ONLY_FIELDS) {
+        if (server[field] !== undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [field],
+            message: `${field} only applies to stdio servers (with a command)`,
+          });
+        }
+      }
+    }
+
+    if (server.command !== undefined && server.headers !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['headers'],
+        message: 'headers only apply to remote servers (with url or httpUrl)',
+      });
+    }
+  });
+
+export type McpServerConfig = z.infer<typeof mcpServerSchema>;
+
+/**
+ * Determine which transport an MCP server entry uses
+ */
+export function getMcpTransport(server: Record<string, unknown>): McpTransport | null {
+  if (typeof server.command === 'string') return 'stdio';
+  if (typeof server.httpUrl === 'string') return 'http';
+  if (typeof server.url === 'string') return 'sse';
+  return null;
+}
+
+/**
+ * Split a command line into arguments the way a POSIX shell would:
+ * whitespace separates arguments, single quotes are literal, double quotes
+ * allow backslash escapes, and a backslash outside quotes escapes the next character.
+ */
+export function parseShellArgs(input: string): string[] {
+  const args: string[] = [];
+  let current = '';
+  let inArg = false;
+  let quote: "'" | '"' | null = null;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote === "'") {
+      if (char === "'") {
+        quote = null;
+      } else {
+        current += char;
+      }
+    } else if (quote === '"') {
+      if (char === '"') {
+        quote = null;
+      } else if (char === '\\' && i + 1 < input.length && '"\\$`'.includes(input[i + 1])) {
+        current += input[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      inArg = true;
+    } else if (char === '\\' && i + 1 < input.length) {
+      current += input[++i];
+      inArg = true;
+    } else if (/\s/.test(char)) {
+      if (inArg) {
+        args.push(current);
+        current = '';
+        inArg = false;
+      }
+    } else {
+      current += char;
+      inArg = true;
+    }
+  }
+
+  if (quote) {
+    throw new Error(`Unterminated ${quote === '"' ? 'double' : 'single'} quote in: ${input}`);
+  }
+
+  if (inArg) {
+    args.push(current);
+  }
+
+  return args;
+}
@@ -0,0 +1,152 @@
+/**
+ * MCP server entries across configuration scopes
+ */
+
+import { loadMergedConfig, type ConfigLayerName } from './merge.js';
+import { loadConfig, type ConfigScope } from './loader.js';
+import { mcpServerSchema, getMcpTransport, parseShellArgs, type McpTransport } from './mcpSchema.js';
+import { validateSchema } from '../utils/validation.js';
+
+export interface McpServerListing {
+  name: string;
+  scope: ConfigLayerName;
+  configPath?: string;
+  transport: McpTransport | null;
+  config: Record<string, unknown>;
+  // Lower-precedence scopes that also define this server and are overridden
+  overrides: Array<{ scope: ConfigLayerName; configPath?: string }>;
+  errors?: string;
+}
+
+export interface McpServerFields {
+  command?: string;
+  args?: string[] | string;
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+  httpUrl?: string;
+  headers?: Record<string, string>;
+  timeout?: number;
+  trust?: boolean;
+  includeTools?: string[];
+  excludeTools?: string[];
+  description?: string;
+}
+
+// Only one transport can be configured at a time
+const TRANSPORT_FIELDS: Record<McpTransport, string[]> = {
+  stdio: ['command', 'args', 'env', 'cwd'],
+  sse: ['url', 'headers'],
+  http: ['httpUrl', 'headers'],
+};
+
+/**
+ * Validate an MCP server entry, returning a readable error string if invalid
+ */
+export function validateMcpServer(config: unknown): string | undefined {
+  const result = validateSchema(mcpServerSchema, config);
+  return result.success ? undefined : result.error;
+}
+
+/**
+ * List the effective MCP servers with the scope each one comes from
+ */
+export function listMcpServers(projectDir?: string): McpServerListing[] {
+  const merged = loadMergedConfig(projectDir);
+
+  return merged.provenance
+    .filter((entry) => entry.path.startsWith('mcpServers.') && entry.path.split('.').length === 2)
+    .map((entry) => {
+      const config = (entry.value ?? {}) as Record<string, unknown>;
+      const errors = validateMcpServer(config);
+
+      return {
+        name: entry.path.slice('mcpServers.'.length),
+        scope: entry.source,
+        ...(entry.configPath ? { configPath: entry.configPath } : {}),
+        transport: getMcpTransport(config),
+        config,
+        overrides: entry.shadows.map((shadow) => ({
+          scope: shadow.source,
+          ...(shadow.configPath ? { configPath: shadow.configPath } : {}),
+        })),
+        ...(errors ? { errors } : {}),
+      };
+    });
+}
+
+/**
+ * Get a server entry as stored in one scope's settings file
+ */
+export function getMcpServer(name: string, scope: ConfigScope, projectDir?: string): Record<string, unknown> | undefined {
+  return findMcpServer(loadConfig(scope, projectDir), name);
+}
+
+/**
+ * Get one server entry from an already loaded settings file
+ */
+export function findMcpServer(config: Record<string, unknown> | null, name: string): Record<string, unknown> | undefined {
+  const servers = config?.mcpServers;
+  if (typeof servers !== 'object' || servers === null) {
+    return undefined;
+  }
+  return (servers as Record<string, Record<string, unknown>>)[name];
+}
+
+/**
+ * Normalize user-supplied fields into a server entry.
+ * A command line given without args is split shell-style into command and args.
+ */
+export function buildMcpServerFields(fields: McpServerFields): Record<string, unknown> {
+  const server: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) {
+      server[key] = value;
+    }
+  }
+
+  if (typeof fields.args === 'string') {
+    server.args = parseShellArgs(fields.args);
+  }
+
+  if (fields.command !== undefined && fields.args === undefined && /\s/.test(fields.command.trim())) {
+    const [command, ...args] = parseShellArgs(fields.command);
+    server.command = command;
+    if (args.length > 0) {
+      server.args = args;
+    }
+  }
+
+  return server;
+}
+
+/**
+ * Merge updated fields into an existing server entry.
+ * Switching transport drops fields that belong to the previous transport.
+ */
+export function mergeMcpServer(
+  existing: Record<string, unknown>,
+  updates: Record<string, unknown>,
+  unset: string[] = []
+): Record<string, unknown> {
+  const next: Record<string, unknown> = { ...existing };
+  const newTransport = getMcpTransport(updates);
+  const oldTransport = getMcpTransport(existing);
+
+  if (newTransport && oldTransport && newTransport !== oldTransport) {
+    for (const field of TRANSPORT_FIELDS[oldTransport]) {
+      if (!TRANSPORT_FIELDS[newTransport].includes(field)) {
+        delete next[field];
+      }
+    }
+  }
+
+  Object.assign(next, updates);
+
+  for (const field of unset) {
+    delete next[field];
+  }
+
+  return next;
+}
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findSystemOverrides, mergeConfigLayers, type ConfigLayer, type SettingProvenance } from './merge.js';
+
+const SYSTEM_DEFAULTS = '/etc/gemini-cli/system-defaults.json';
+const USER = '/home/me/.gemini/settings.json';
+const PROJECT = '/work/app/.gemini/settings.json';
+const SYSTEM = '/etc/gemini-cli/settings.json';
+
+const LAYERS: ConfigLayer[] = [
+  {
+    name: 'default',
+    config: {
+      ui: { theme: 'Default', customThemes: {} },
+      general: { vimMode: false },
+      context: { includeDirectories: [] },
+      advanced: { excludedEnvVars: ['DEBUG', 'DEBUG_MODE'] },
+      mcpServers: {},
+    },
+  },
+  {
+    name: 'systemDefaults',
+    configPath: SYSTEM_DEFAULTS,
+    config: {
+      ui: { theme: 'Corporate' },
+      context: { includeDirectories: ['/shared'] },
+      advanced: { excludedEnvVars: ['DEBUG', 'CI'] },
+    },
+  },
+  {
+    name: 'user',
+    configPath: USER,
+    config: {
+      ui: { theme: 'GitHub', customThemes: { mine: { name: 'mine', type: 'custom' } } },
+      general: { vimMode: true },
+      context: { includeDirectories: ['~/notes'] },
+      mcpServers: { a: { command: 'a-server' }, b: { command: 'b-server', args: ['--user'] } },
+    },
+  },
+  {
+    name: 'project',
+    configPath: PROJECT,
+    config: {
+      ui: { theme: 'Dracula' },
+      context: { includeDirectories: ['./docs', '/shared'] },
+      advanced: { excludedEnvVars: ['CI', 'TOKEN'] },
+      mcpServers: { b: { url: 'http://localhost:8080/sse' } },
+    },
+  },
+  {
+    name: 'system',
+    configPath: SYSTEM,
+    config: { general: { vimMode: false } },
+  },
+];
+
+describe('mergeConfigLayers', () => {
+  const merged = mergeConfigLayers(LAYERS);
+  const provenance = (path: string): SettingProvenance | undefined =>
+    merged.provenance.find((entry) => entry.path === path);
+
+  it('takes each setting from the highest layer that sets it and records the values it shadows', () => {
+    expect(provenance('ui.theme')).toEqual({
+      path: 'ui.theme',
+      value: 'Dracula',
+      source: 'project',
+      configPath: PROJECT,
+      shadows: [
+        { source: 'user', configPath: USER, value: 'GitHub' },
+        { source: 'systemDefaults', configPath: SYSTEM_DEFAULTS, value: 'Corporate' },
+        { source: 'default', value: 'Default' },
+      ],
+    });
+  });
+
+  it('lets system settings override every other layer', () => {
+    expect(provenance('general.vimMode')).toEqual({
+      path: 'general.vimMode',
+      value: false,
+      source: 'system',
+      configPath: SYSTEM,
+      shadows: [
+        { source: 'user', configPath: USER, value: true },
+        { source: 'default', value: false },
+      ],
+    });
+  });
+
+  it('replaces shallow-merged entries as a whole', () => {
+    expect(merged.config.mcpServers).toEqual({
+      a: { command: 'a-server' },
+      b: { url: 'http://localhost:8080/sse' },
+    });
+    expect(provenance('mcpServers.a')).toMatchObject({ source: 'user', shadows: [] });
+    expect(provenance('mcpServers.b')).toMatchObject({
+      source: 'project',
+      shadows: [{ source: 'user', configPath: USER, value: { command: 'b-server', args: ['--user'] } }],
+    });
+    expect(provenance('ui.customThemes.mine')).toMatchObject({
+      value: { name: 'mine', type: 'custom' },
+      source: 'user',
+    });
+  });
+
+  it('concatenates concat arrays across layers, keeping duplicates', () => {
+    expect(provenance('context.includeDirectories')).toMatchObject({
+      value: ['/shared', '~/notes', './docs', '/shared'],
+      source: 'project',
+      mergedFrom: ['default', 'systemDefaults', 'user', 'project'],
+    });
+  });
+
+  it('unions union arrays across layers without duplicates', () => {
+    expect(provenance('advanced.excludedEnvVars')).toMatchObject({
+      value: ['DEBUG', 'DEBUG_MODE', 'CI', 'TOKEN'],
+      source: 'project',
+      mergedFrom: ['default', 'systemDefaults', 'project'],
+    });
+  });
+
+  it('builds the effective config from the provenance', () => {
+    expect(merged.config).toEqual({
+      ui: { theme: 'Dracula', customThemes: { mine: { name: 'mine', type: 'custom' } } },
+      general: { vimMode: false },
+      context: { includeDirectories: ['/shared', '~/notes', './docs', '/shared'] },
+      advanced: { excludedEnvVars: ['DEBUG', 'DEBUG_MODE', 'CI', 'TOKEN'] },
+      mcpServers: { a: { command: 'a-server' }, b: { url: 'http://localhost:8080/sse' } },
+    });
+  });
+
+  it('skips missing layers and replaces a whole object set over leaf settings', () => {
+    const result = mergeConfigLayers([
+      { name: 'default', config: { ui: { theme: 'Default' } } },
+      { name: 'systemDefaults', configPath: SYSTEM_DEFAULTS, config: null },
+      { name: 'user', configPath: USER, config: { ui: { theme: 'GitHub' } } },
+      { name: 'project', configPath: PROJECT, config: { ui: 'minimal' } },
+    ]);
+
+    expect(result.config).toEqual({ ui: 'minimal' });
+    expect(result.provenance).toEqual([
+      {
+        path: 'ui',
+        value: 'minimal',
+        source: 'project',
+        configPath: PROJECT,
+        shadows: [
+          { source: 'user', configPath: USER, value: 'GitHub' },
+          { source: 'default', value: 'Default' },
+        ],
+      },
+    ]);
+  });
+});
+
+describe('findSystemOverrides', () => {
+  let root: string;
+  let project: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'merge-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(project, '.gemini'), { recursive: true });
+    mkdirSync(join(root, 'system'));
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system', 'settings.json');
+    writeFileSync(join(root, 'system', 'settings.json'), JSON.stringify({ ui: { theme: 'Corporate' }, tools: { sandbox: true } }));
+    writeFileSync(join(root, 'system', 'system-defaults.json'), JSON.stringify({ general: { vimMode: true } }));
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  const overridden = (scope: 'user' | 'project', config: Record<string, unknown>, paths: string[]) =>
+    findSystemOverrides(scope, config, paths, project).map((entry) => [entry.path, entry.value, entry.shadows.map((s) => s.source)]);
+
+  it('reports the system settings that override the scope at the given paths', () => {
+    const config = { ui: { theme: 'GitHub', hideTips: true }, tools: { sandbox: false } };
+
+    expect(overridden('user', config, ['ui'])).toEqual([['ui.theme', 'Corporate', ['user']]]);
+    expect(overridden('project', config, ['ui.theme', 'tools.sandbox', 'ui.hideTips'])).toEqual([
+      ['ui.theme', 'Corporate', ['project']],
+      ['tools.sandbox', true, ['project']],
+    ]);
+  });
+
+  it('ignores system defaults, which the scope overrides', () => {
+    expect(overridden('user', { general: { vimMode: false } }, ['general.vimMode'])).toEqual([]);
+  });
+
+  it('does not read the other scope, so a broken file there does not matter', () => {
+    writeFileSync(join(project, '.gemini', 'settings.json'), '{ "ui": ');
+
+    expect(overridden('user', { ui: { theme: 'GitHub' } }, ['ui.theme'])).toEqual([['ui.theme', 'Corporate', ['user']]]);
+  });
+});
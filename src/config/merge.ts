@@ -0,0 +1,292 @@
+/**
+ * Layered configuration merging with per-setting provenance
+ */
+
+import {
+  loadConfig,
+  loadSystemConfig,
+  getConfigPath,
+  getSystemConfigPath,
+  resolveProjectDir,
+  type ConfigScope,
+} from './loader.js';
+import { SETTINGS_REGISTRY, getMergeStrategy } from './registry.js';
+import { isProjectUntrusted, UNTRUSTED_PROJECT_REASON } from './trust.js';
+
+/**
+ * Configuration layers, lowest precedence first
+ */
+export type ConfigLayerName = 'default' | 'systemDefaults' | 'user' | 'project' | 'system';
+
+export interface ConfigLayer {
+  name: ConfigLayerName;
+  configPath?: string;
+  config: Record<string, unknown> | null;
+}
+
+export interface ShadowedValue {
+  source: ConfigLayerName;
+  configPath?: string;
+  value: unknown;
+}
+
+export interface SettingProvenance {
+  path: string;
+  value: unknown;
+  source: ConfigLayerName;
+  configPath?: string;
+  shadows: ShadowedValue[];
+  mergedFrom?: ConfigLayerName[];
+}
+
+/**
+ * A setting Gemini CLI doesn't apply, e.g. a project setting of an untrusted folder
+ */
+export interface IgnoredSetting {
+  path: string;
+  value: unknown;
+  source: ConfigLayerName;
+  configPath?: string;
+  reason: string;
+}
+
+export interface MergedConfig {
+  config: Record<string, unknown>;
+  provenance: SettingProvenance[];
+  ignored?: IgnoredSetting[];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build a config object holding the registry defaults
+ */
+export function buildDefaultsConfig(): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+
+  for (const def of SETTINGS_REGISTRY) {
+    if (def.default !== undefined && !def.path.includes('*')) {
+      setNestedValue(config, def.path, structuredClone(def.default));
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Load all configuration layers in precedence order (lowest first)
+ */
+export function loadConfigLayers(projectDir?: string): ConfigLayer[] {
+  return [
+    { name: 'default', config: buildDefaultsConfig() },
+    { name: 'systemDefaults', configPath: getSystemConfigPath('systemDefaults'), config: loadSystemConfig('systemDefaults') },
+    { name: 'user', configPath: getConfigPath('user'), config: loadConfig('user') },
+    { name: 'project', configPath: getConfigPath('project', projectDir), config: loadConfig('project', projectDir) },
+    { name: 'system', configPath: getSystemConfigPath('system'), config: loadSystemConfig('system') },
+  ];
+}
+
+/**
+ * Get a nested value from an object by dotted path
+ */
+export function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
+  const parts = path.split('.');
+  let current: any = obj;
+
+  for (const part of parts) {
+    if (current && typeof current === 'object' && part in current) {
+      current = current[part];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Set a nested value on an object by dotted path, creating parents as needed
+ */
+export function setNestedValue(obj: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let current: Record<string, unknown> = obj;
+
+  for (let i = 0; i < parts.length - 1; i++) {
+    const next = current[parts[i]];
+    if (!isPlainObject(next)) {
+      current[parts[i]] = {};
+    }
+    current = current[parts[i]] as Record<string, unknown>;
+  }
+
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Flatten a config object into its leaf settings.
+ * Entries of shallow-merged objects (e.g. individual MCP servers) are treated as leaves.
+ */
+export function flattenConfig(
+  obj: Record<string, unknown>,
+  prefix = '',
+  out: Map<string, unknown> = new Map()
+): Map<string, unknown> {
+  const shallow = prefix !== '' && getMergeStrategy(prefix) === 'shallow';
+
+  for (const [key, value] of Object.entries(obj)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+
+    if (!shallow && isPlainObject(value)) {
+      if (Object.keys(value).length > 0) {
+        flattenConfig(value, path, out);
+      }
+    } else {
+      out.set(path, value);
+    }
+  }
+
+  return out;
+}
+
+function overlaps(a: string, b: string): boolean {
+  return a === b || a.startsWith(`${b}.`) || b.startsWith(`${a}.`);
+}
+
+/**
+ * Combine array values according to the setting's merge strategy
+ */
+function combineArrays(path: string, lower: unknown, higher: unknown): unknown {
+  const strategy = getMergeStrategy(path);
+  if (!Array.isArray(lower) || !Array.isArray(higher)) {
+    return higher;
+  }
+
+  if (strategy === 'concat') {
+    return [...lower, ...higher];
+  }
+
+  if (strategy === 'union') {
+    return Array.from(new Set([...lower, ...higher]));
+  }
+
+  return higher;
+}
+
+/**
+ * Deep-merge configuration layers, recording where each effective value came from
+ */
+export function mergeConfigLayers(layers: ConfigLayer[]): MergedConfig {
+  let entries: SettingProvenance[] = [];
+
+  for (const layer of layers) {
+    if (!layer.config) {
+      continue;
+    }
+
+    for (const [path, value] of flattenConfig(layer.config)) {
+      const conflicting = entries.filter((entry) => overlaps(entry.path, path));
+      entries = entries.filter((entry) => !overlaps(entry.path, path));
+
+      const strategy = getMergeStrategy(path);
+      const sameLeaf = conflicting.find((entry) => entry.path === path);
+
+      if (sameLeaf && (strategy === 'concat' || strategy === 'union')) {
+        entries.push({
+          ...sameLeaf,
+          value: combineArrays(path, sameLeaf.value, value),
+          source: layer.name,
+          configPath: layer.configPath,
+          mergedFrom: [...(sameLeaf.mergedFrom ?? [sameLeaf.source]), layer.name],
+        });
+        continue;
+      }
+
+      const shadows: ShadowedValue[] = conflicting.flatMap((entry) => [
+        {
+          source: entry.source,
+          ...(entry.configPath ? { configPath: entry.configPath } : {}),
+          value: entry.value,
+        },
+        ...entry.shadows,
+      ]);
+
+      entries.push({
+        path,
+        value,
+        source: layer.name,
+        ...(layer.configPath ? { configPath: layer.configPath } : {}),
+        shadows,
+      });
+    }
+  }
+
+  entries.sort((a, b) => a.path.localeCompare(b.path));
+
+  const config: Record<string, unknown> = {};
+  for (const entry of entries) {
+    setNestedValue(config, entry.path, structuredClone(entry.value));
+  }
+
+  return { config, provenance: entries };
+}
+
+/**
+ * Load and merge all configuration layers for a project.
+ * Like Gemini CLI, the project settings of an untrusted folder are left out and reported as ignored.
+ */
+export function loadMergedConfig(projectDir?: string): MergedConfig {
+  const layers = loadConfigLayers(projectDir);
+  const project = layers.find((layer) => layer.name === 'project');
+
+  if (!project?.config || !isProjectUntrusted(resolveProjectDir(projectDir))) {
+    return mergeConfigLayers(layers);
+  }
+
+  const ignored: IgnoredSetting[] = Array.from(flattenConfig(project.config), ([path, value]) => ({
+    path,
+    value,
+    source: project.name,
+    ...(project.configPath ? { configPath: project.configPath } : {}),
+    reason: UNTRUSTED_PROJECT_REASON,
+  }));
+  return { ...mergeConfigLayers(layers.filter((layer) => layer !== project)), ignored };
+}
+
+/**
+ * Get provenance entries for a setting path (the setting itself or anything nested in it)
+ */
+export function getProvenanceFor<T extends { path: string }>(provenance: T[], path: string): T[] {
+  return provenance.filter((entry) => entry.path === path || entry.path.startsWith(`${path}.`) || path.startsWith(`${entry.path}.`));
+}
+
+/**
+ * Find the system settings that would override what a user or project config sets at the given paths,
+ * i.e. the values Gemini CLI would use instead of the ones in config
+ */
+export function findSystemOverrides(
+  scope: ConfigScope,
+  config: Record<string, unknown>,
+  paths: string[],
+  projectDir?: string
+): SettingProvenance[] {
+  // Only the system layers can override the scope; the other scope's file isn't read, so a broken one doesn't block the edit
+  const layers: ConfigLayer[] = [
+    { name: 'systemDefaults', configPath: getSystemConfigPath('systemDefaults'), config: loadSystemConfig('systemDefaults') },
+    { name: scope, configPath: getConfigPath(scope, projectDir), config },
+    { name: 'system', configPath: getSystemConfigPath('system'), config: loadSystemConfig('system') },
+  ];
+  const { provenance } = mergeConfigLayers(layers);
+
+  const overrides = new Map<string, SettingProvenance>();
+  for (const path of paths) {
+    for (const entry of getProvenanceFor(provenance, path)) {
+      if (entry.source === 'system' && entry.shadows.some((shadow) => shadow.source === scope)) {
+        overrides.set(entry.path, entry);
+      }
+    }
+  }
+
+  return Array.from(overrides.values());
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { planLegacyMigration } from './migration.js';
+import { applyChangesToConfig } from './editor.js';
+import { migrateGeminiSettings } from '../tools/migration.js';
+
+const migrate = (config: Record<string, unknown>, resolution: 'nested' | 'legacy' = 'nested') => {
+  const plan = planLegacyMigration(config, resolution);
+  const result = applyChangesToConfig(config, plan.changes);
+  expect(result.errors).toEqual([]);
+  return { ...plan, config: result.config };
+};
+
+describe('planLegacyMigration', () => {
+  it('moves flat keys to their nested paths', () => {
+    const { legacy, config } = migrate({ theme: 'GitHub', vimMode: true, ui: { hideTips: true } });
+
+    expect(legacy.map((setting) => [setting.key, setting.path, setting.conflict])).toEqual([
+      ['theme', 'ui.theme', false],
+      ['vimMode', 'general.vimMode', false],
+    ]);
+    expect(config).toEqual({ ui: { hideTips: true, theme: 'GitHub' }, general: { vimMode: true } });
+  });
+
+  it('turns a legacy model string into model.name', () => {
+    const { legacy, config } = migrate({ model: 'gemini-2.5-pro', theme: 'GitHub' });
+
+    expect(legacy[0]).toEqual({ key: 'model', path: 'model.name', legacyValue: 'gemini-2.5-pro', conflict: false });
+    expect(config).toEqual({ model: { name: 'gemini-2.5-pro' }, ui: { theme: 'GitHub' } });
+  });
+
+  it('leaves a model settings group alone', () => {
+    expect(planLegacyMigration({ model: { name: 'gemini-2.5-pro' } })).toEqual({ legacy: [], changes: [] });
+  });
+
+  it.each([
+    ['nested', 'GitHub'],
+    ['legacy', 'Dracula'],
+  ] as const)('keeps the %s value of a conflicting leaf', (resolution, theme) => {
+    const { legacy, config } = migrate({ theme: 'Dracula', ui: { theme: 'GitHub' } }, resolution);
+
+    expect(legacy).toEqual([
+      { key: 'theme', path: 'ui.theme', legacyValue: 'Dracula', nestedValue: 'GitHub', conflict: true },
+    ]);
+    expect(config).toEqual({ ui: { theme } });
+  });
+
+  it.each([
+    ['nested', { respectGitIgnore: true, enableRecursiveFileSearch: true, respectGeminiIgnore: false }],
+    ['legacy', { respectGitIgnore: false, enableRecursiveFileSearch: true, respectGeminiIgnore: false }],
+  ] as const)('merges fileFiltering key by key, preferring the %s side on conflicts', (resolution, expected) => {
+    const { legacy, config } = migrate(
+      {
+        fileFiltering: { respectGitIgnore: false, enableRecursiveFileSearch: true },
+        context: { fileFiltering: { respectGitIgnore: true, respectGeminiIgnore: false } },
+      },
+      resolution
+    );
+
+    expect(legacy[0].conflict).toBe(true);
+    expect(config).toEqual({ context: { fileFiltering: expected } });
+  });
+
+  it('merges checkpointing into an existing general group without a conflict', () => {
+    const { legacy, config } = migrate({ checkpointing: { enabled: true }, general: { vimMode: true } });
+
+    expect(legacy[0]).toMatchObject({ key: 'checkpointing', path: 'general.checkpointing', conflict: false });
+    expect(config).toEqual({ general: { vimMode: true, checkpointing: { enabled: true } } });
+  });
+
+  it('only removes a legacy key whose value the nested path already holds', () => {
+    expect(planLegacyMigration({ hideTips: true, ui: { hideTips: true } }).changes).toEqual([
+      { path: 'hideTips', operation: 'remove', value: undefined },
+    ]);
+  });
+});
+
+describe('migrateGeminiSettings', () => {
+  let root: string;
+  let project: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const userSettings = () => join(root, 'home', '.gemini', 'settings.json');
+  const projectSettings = () => join(project, '.gemini', 'settings.json');
+  const read = (path: string) => JSON.parse(readFileSync(path, 'utf-8'));
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'migration-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(project, '.gemini'), { recursive: true });
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('migrates both scopes', async () => {
+    writeFileSync(userSettings(), JSON.stringify({ theme: 'GitHub', model: 'gemini-2.5-pro' }));
+    writeFileSync(projectSettings(), JSON.stringify({ sandbox: true }));
+
+    const result = await migrateGeminiSettings({ projectDir: project });
+
+    expect(result.structuredContent).toMatchObject({ success: true, appliedScopes: ['user', 'project'] });
+    expect(read(userSettings())).toEqual({ ui: { theme: 'GitHub' }, model: { name: 'gemini-2.5-pro' } });
+    expect(read(projectSettings())).toEqual({ tools: { sandbox: true } });
+  });
+
+  it('reports a partial migration when one scope fails', async () => {
+    writeFileSync(userSettings(), JSON.stringify({ theme: 'GitHub' }));
+    const brokenProject = JSON.stringify({ vimMode: 'sometimes' });
+    writeFileSync(projectSettings(), brokenProject);
+
+    const result = await migrateGeminiSettings({ scope: 'all', projectDir: project });
+    const output = result.structuredContent as Record<string, any>;
+
+    expect(result.isError).toBe(true);
+    expect(output.success).toBe(false);
+    expect(output.appliedScopes).toEqual(['user']);
+    expect(output.warning).toContain('user settings were migrated, but migrating project settings failed');
+    expect(output.scopes.map((entry: { applied: boolean }) => entry.applied)).toEqual([true, false]);
+    expect(read(userSettings())).toEqual({ ui: { theme: 'GitHub' } });
+    expect(readFileSync(projectSettings(), 'utf-8')).toBe(brokenProject);
+  });
+
+  it('changes nothing on a dry run', async () => {
+    writeFileSync(userSettings(), JSON.stringify({ theme: 'GitHub' }));
+
+    const result = await migrateGeminiSettings({ scope: 'user', dryRun: true, projectDir: project });
+
+    expect(result.structuredContent).toMatchObject({ success: true, appliedScopes: [] });
+    expect(read(userSettings())).toEqual({ theme: 'GitHub' });
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Migration of legacy flat settings (e.g. "theme", "vimMode") to the nested settings format
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { getNestedValue, flattenConfig } from './merge.js';
+import { getLegacySettingTarget } from './registry.js';
+import type { ConfigChange } from './parser.js';
+
+// Which value wins when a legacy key and its nested replacement are both set
+export type LegacyConflictResolution = 'nested' | 'legacy';
+
+export interface LegacySetting {
+  // Legacy top-level key
+  key: string;
+  // Nested path that replaces it
+  path: string;
+  legacyValue: unknown;
+  nestedValue?: unknown;
+  // Both forms are set to different values
+  conflict: boolean;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge two setting values; on overlapping leaves the preferred value wins
+ */
+function mergePreferring(preferred: unknown, other: unknown): unknown {
+  if (!isPlainObject(preferred) || !isPlainObject(other)) {
+    return preferred;
+  }
+  const merged: Record<string, unknown> = { ...other };
+  for (const [key, value] of Object.entries(preferred)) {
+    merged[key] = key in other ? mergePreferring(value, other[key]) : value;
+  }
+  return merged;
+}
+
+/**
+ * Whether two values disagree on any setting they both define
+ */
+function hasConflict(legacyValue: unknown, nestedValue: unknown): boolean {
+  if (nestedValue === undefined) {
+    return false;
+  }
+  if (!isPlainObject(legacyValue) || !isPlainObject(nestedValue)) {
+    return !isDeepStrictEqual(legacyValue, nestedValue);
+  }
+  const nestedLeaves = flattenConfig(nestedValue);
+  return Array.from(flattenConfig(legacyValue)).some(
+    ([path, value]) => nestedLeaves.has(path) && !isDeepStrictEqual(nestedLeaves.get(path), value)
+  );
+}
+
+/**
+ * Find the legacy top-level keys in a settings file
+ */
+export function findLegacySettings(config: Record<string, unknown> | null): LegacySetting[] {
+  const settings: LegacySetting[] = [];
+
+  for (const [key, legacyValue] of Object.entries(config ?? {})) {
+    const path = getLegacySettingTarget(key, legacyValue);
+    if (!path) {
+      continue;
+    }
+    // A legacy "model" string is replaced in place, so its nested value can't coexist with it
+    const nestedValue = key === 'model' ? undefined : getNestedValue(config ?? {}, path);
+    settings.push({
+      key,
+      path,
+      legacyValue,
+      ...(nestedValue !== undefined ? { nestedValue } : {}),
+      conflict: hasConflict(legacyValue, nestedValue),
+    });
+  }
+
+  return settings;
+}
+
+/**
+ * The changes that move every legacy key of a settings file to its nested path.
+ * Legacy keys are removed first, so a legacy "model" string can become the "model" group.
+ */
+export function planLegacyMigration(
+  config: Record<string, unknown> | null,
+  resolution: LegacyConflictResolution = 'nested'
+): { legacy: LegacySetting[]; changes: ConfigChange[] } {
+  const legacy = findLegacySettings(config);
+  const removals: ConfigChange[] = [];
+  const sets: ConfigChange[] = [];
+
+  for (const setting of legacy) {
+    removals.push({ path: setting.key, operation: 'remove', value: undefined });
+
+    const value =
+      setting.nestedValue === undefined
+        ? setting.legacyValue
+        : resolution === 'nested'
+          ? mergePreferring(setting.nestedValue, setting.legacyValue)
+          : mergePreferring(setting.legacyValue, setting.nestedValue);
+    if (!isDeepStrictEqual(value, setting.nestedValue)) {
+      sets.push({ path: setting.path, operation: 'set', value: structuredClone(value) });
+    }
+  }
+
+  return { legacy, changes: [...removals, ...sets] };
+}
+
+/**
+ * Warn when an edit writes a nested setting that a legacy key in the same file duplicates or may shadow
+ */
+export function getLegacyShadowWarnings(config: Record<string, unknown>, changes: ConfigChange[]): string[] {
+  const warnings: string[] = [];
+
+  for (const setting of findLegacySettings(config)) {
+    const touched = changes.some(
+      (change) =>
+        change.operation !== 'remove' &&
+        (change.path === setting.path ||
+          change.path.startsWith(`${setting.path}.`) ||
+          setting.path.startsWith(`${change.path}.`))
+    );
+    if (!touched || setting.nestedValue === undefined) {
+      continue;
+    }
+
+    warnings.push(
+      setting.conflict
+        ? `${setting.path} is also set by the legacy top-level "${setting.key}" (${JSON.stringify(setting.legacyValue)}), ` +
+            'which may shadow it; run migrate_gemini_settings to resolve the conflict'
+        : `${setting.path} duplicates the legacy top-level "${setting.key}" in the same file; ` +
+            'run migrate_gemini_settings to remove the legacy key'
+    );
+  }
+
+  return warnings;
+}
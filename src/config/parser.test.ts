@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { parseConfigInstruction, type ConfigChange } from './parser.js';
+
+function parse(instruction: string): ConfigChange[] {
+  const result = parseConfigInstruction(instruction);
+  expect(result.failedClauses).toEqual([]);
+  return result.changes;
+}
+
+// Setting phrases with the path they resolve to and whether true turns the feature off
+const SETTINGS = [
+  { phrase: 'vim mode', path: 'general.vimMode', negative: false },
+  { phrase: 'line numbers', path: 'ui.showLineNumbers', negative: false },
+  { phrase: 'telemetry', path: 'privacy.usageStatisticsEnabled', negative: false },
+  { phrase: 'banner', path: 'ui.hideBanner', negative: true },
+  { phrase: 'tips', path: 'ui.hideTips', negative: true },
+  { phrase: 'auto update', path: 'general.disableAutoUpdate', negative: true },
+];
+
+// Verb templates and whether they switch the feature on
+const VERBS = [
+  { template: 'enable {}', on: true },
+  { template: 're-enable {}', on: true },
+  { template: 'activate {}', on: true },
+  { template: 'turn on the {}', on: true },
+  { template: 'turn {} on', on: true },
+  { template: 'turn the {} back on', on: true },
+  { template: 'switch {} back on', on: true },
+  { template: 'enable {} again', on: true },
+  { template: 'show the {}', on: true },
+  { template: 'start showing {}', on: true },
+  { template: 'disable {}', on: false },
+  { template: 'deactivate {}', on: false },
+  { template: 'turn off {}', on: false },
+  { template: 'turn {} off', on: false },
+  { template: 'switch off the {}', on: false },
+  { template: 'hide the {}', on: false },
+  { template: 'stop showing {}', on: false },
+  { template: "don't show {}", on: false },
+  { template: 'stop {}', on: false },
+  { template: 'stop doing {}', on: false },
+  { template: 'stop using {}', on: false },
+];
+
+describe('parseConfigInstruction switch verbs', () => {
+  for (const setting of SETTINGS) {
+    describe(`${setting.path} (${setting.negative ? 'negative' : 'positive'})`, () => {
+      it.each(VERBS)('$template', ({ template, on }) => {
+        const instruction = template.replace('{}', setting.phrase);
+        expect(parse(instruction)).toEqual([{ path: setting.path, value: setting.negative ? !on : on, operation: 'set' }]);
+      });
+    });
+  }
+
+  it('takes setting names that already say "off" literally', () => {
+    expect(parse('enable hide banner')).toEqual([{ path: 'ui.hideBanner', value: true, operation: 'set' }]);
+    expect(parse('turn on general.disableAutoUpdate')).toEqual([
+      { path: 'general.disableAutoUpdate', value: true, operation: 'set' },
+    ]);
+    expect(parse('disable hideTips')).toEqual([{ path: 'ui.hideTips', value: false, operation: 'set' }]);
+  });
+
+  it('does not confuse the update nag with auto update', () => {
+    expect(parse('disable update nag')).toEqual([{ path: 'general.disableUpdateNag', value: true, operation: 'set' }]);
+  });
+
+  it('parses compound instructions clause by clause', () => {
+    expect(parse('turn vim mode back on and hide the banner, then show line numbers')).toEqual([
+      { path: 'general.vimMode', value: true, operation: 'set' },
+      { path: 'ui.hideBanner', value: true, operation: 'set' },
+      { path: 'ui.showLineNumbers', value: true, operation: 'set' },
+    ]);
+  });
+});
+
+describe('parseConfigInstruction reset', () => {
+  it.each([
+    ['reset theme', 'ui.theme'],
+    ['reset the theme to default', 'ui.theme'],
+    ['reset vim mode to its default value', 'general.vimMode'],
+    ['restore banner to defaults', 'ui.hideBanner'],
+    ['revert max turns back to default', 'model.maxSessionTurns'],
+  ])('%s', (instruction, path) => {
+    expect(parse(instruction)).toEqual([{ path, value: undefined, operation: 'remove' }]);
+  });
+
+  it('sets an explicit value given after "reset X to"', () => {
+    expect(parse('reset theme to GitHub')).toEqual([{ path: 'ui.theme', value: 'GitHub', operation: 'set' }]);
+  });
+});
+
+describe('parseConfigInstruction assignment verbs', () => {
+  it.each([
+    ['set max turns to 50', 50],
+    ['increase max turns to 50', 50],
+    ['raise the max turns to 80', 80],
+    ['bump up max turns to 100', 100],
+    ['decrease max turns to 20', 20],
+    ['lower max turns to 10', 10],
+    ['reduce max turns to 5', 5],
+    ['change max turns to 30', 30],
+  ])('%s', (instruction, value) => {
+    expect(parse(instruction)).toEqual([{ path: 'model.maxSessionTurns', value, operation: 'set' }]);
+  });
+
+  it('keeps the case of string values', () => {
+    expect(parse('change theme to GitHub')).toEqual([{ path: 'ui.theme', value: 'GitHub', operation: 'set' }]);
+  });
+});
@@ -2,6 +2,9 @@
  * Natural language configuration instruction parser
  */
 
+import { resolveSettingName } from './resolver.js';
+import { getSettingPolarity } from './registry.js';
+import { parseShellArgs } from './mcpSchema.js';
 import { logger } from '../utils/logger.js';
 
 export interface ConfigChange {
@@ -10,17 +13,188 @@ export interface ConfigChange {
   operation: 'set' | 'add' | 'remove' | 'toggle';
 }
 
+export interface ParsedClause {
+  clause: string;
+  changes: ConfigChange[];
+}
+
+export interface ParsedInstruction {
+  changes: ConfigChange[];
+  clauses: ParsedClause[];
+  failedClauses: string[];
+  // Notes about how setting names were resolved, including "did you mean" suggestions
+  warnings: string[];
+}
+
+// Separators between clauses: commas, semicolons and conjunctions such as "and", "then", "also"
+const CLAUSE_SEPARATOR = /\s*[,;]\s*(?:(?:and\s+)?then\s+|and\s+|also\s+)?|\s+(?:(?:and\s+)?then|and|also)\s+/gi;
+
 /**
- * Parse natural language configuration instructions
+ * Split a compound instruction into clauses.
+ * Quoted strings and bracketed lists are never split.
+ */
+export function splitInstruction(instruction: string): Array<{ start: number; end: number }> {
+  // Mask quoted and bracketed regions so separators inside them are ignored
+  let masked = '';
+  let quote: string | null = null;
+  let depth = 0;
+
+  for (const char of instruction) {
+    if (quote) {
+      masked += '\u0001';
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+      masked += '\u0001';
+    } else if (char === '[' || char === '{' || char === '(') {
+      depth++;
+      masked += '\u0001';
+    } else if ((char === ']' || char === '}' || char === ')') && depth > 0) {
+      depth--;
+      masked += '\u0001';
+    } else {
+      masked += depth > 0 ? '\u0001' : char;
+    }
+  }
+
+  const spans: Array<{ start: number; end: number }> = [];
+  let start = 0;
+
+  for (const match of masked.matchAll(CLAUSE_SEPARATOR)) {
+    const index = match.index ?? 0;
+    spans.push({ start, end: index });
+    start = index + match[0].length;
+  }
+  spans.push({ start, end: instruction.length });
+
+  return spans.filter((span) => instruction.slice(span.start, span.end).trim() !== '');
+}
+
+/**
+ * Parse a possibly compound natural language instruction
+ * (e.g. "enable vim mode and set theme to GitHub, then disable telemetry").
+ *
+ * Each clause is parsed separately; clauses that could not be parsed are
+ * reported in failedClauses so the caller can reject the batch as a unit.
+ */
+export function parseConfigInstruction(instruction: string): ParsedInstruction {
+  const text = instruction.trim();
+  const spans = splitInstruction(text);
+  const clauses: Array<ParsedClause & { start: number; end: number }> = [];
+  const failed: Array<{ start: number; end: number }> = [];
+  const warnings: string[] = [];
+
+  for (const span of spans) {
+    const clause = text.slice(span.start, span.end).trim();
+    const notes: string[] = [];
+    const changes = parseClause(clause, notes);
+
+    if (changes.length > 0) {
+      clauses.push({ clause, changes, ...span });
+      warnings.push(...notes);
+      continue;
+    }
+
+    // A separator may have been part of a value (e.g. MCP server args); retry joined with the previous clause
+    const previous = clauses[clauses.length - 1];
+    if (previous && !failed.some((f) => f.start > previous.start)) {
+      const joined = text.slice(previous.start, span.end).trim();
+      const joinedNotes: string[] = [];
+      const joinedChanges = parseClause(joined, joinedNotes);
+      if (joinedChanges.length > 0) {
+        clauses[clauses.length - 1] = { clause: joined, changes: joinedChanges, start: previous.start, end: span.end };
+        warnings.push(...joinedNotes);
+        continue;
+      }
+    }
+
+    failed.push(span);
+    warnings.push(...notes);
+  }
+
+  const failedClauses = failed.map((span) => text.slice(span.start, span.end).trim());
+  if (failedClauses.length > 0) {
+    logger.warn(`Could not parse clauses: ${failedClauses.map((c) => `"${c}"`).join(', ')}`);
+  }
+
+  return {
+    changes: clauses.flatMap((c) => c.changes),
+    clauses: clauses.map(({ clause, changes }) => ({ clause, changes })),
+    failedClauses,
+    warnings: Array.from(new Set(warnings)),
+  };
+}
+
+/**
+ * Verb phrases that switch a feature on or off, in the order they are tried.
+ * The setting is captured in the group named "setting"; "on"/"off" groups carry the direction
+ * for phrasings such as "turn X back on".
+ */
+const SWITCH_PATTERNS: Array<{ pattern: RegExp; on?: boolean }> = [
+  { pattern: /^(?:turn|switch)\s+(?:back\s+)?(?<state>on|off)\s+(?<setting>.+)$/i },
+  { pattern: /^(?:turn|switch)\s+(?<setting>.+?)\s+(?:back\s+)?(?<state>on|off)(?:\s+again)?$/i },
+  { pattern: /^(?:re-?enable|enable|activate)\s+(?<setting>.+?)(?:\s+(?:again|back))?$/i, on: true },
+  { pattern: /^(?:disable|deactivate)\s+(?<setting>.+)$/i, on: false },
+  { pattern: /^(?:show|display|start\s+showing)\s+(?<setting>.+)$/i, on: true },
+  { pattern: /^(?:hide|stop\s+showing|(?:don'?t|do\s+not)\s+show)\s+(?<setting>.+)$/i, on: false },
+  { pattern: /^start\s+(?:doing|using|respecting)\s+(?<setting>.+)$/i, on: true },
+  { pattern: /^stop\s+(?:(?:doing|using|respecting)\s+)?(?<setting>.+)$/i, on: false },
+];
+
+// Setting names that already say "off", e.g. "hide banner" in "enable hide banner"
+const NEGATED_SETTING_NAME = /^(hide|disable|skip)/;
+
+// Verbs that assign a value: "set X to Y", "increase max turns to 50"
+const ASSIGN_PATTERN = /^(?:set|change|increase|decrease|raise|lower|reduce|bump(?:\s+up)?)\s+(?:the\s+|a\s+|an\s+)?(.+?)\s+to\s+(.+)$/i;
+
+// "reset X", "reset X to default", "restore X to its default value"
+const RESET_PATTERN = /^(?:reset|restore|revert)\s+(?:the\s+)?(.+?)(?:\s+(?:back\s+)?to\s+(.+))?$/i;
+const DEFAULT_VALUE = /^(?:the\s+|its\s+)?defaults?(?:\s+values?)?$/i;
+
+/**
+ * Match a phrase that switches a feature on or off
+ */
+function matchSwitch(instruction: string): { setting: string; on: boolean } | null {
+  for (const { pattern, on } of SWITCH_PATTERNS) {
+    const groups = instruction.match(pattern)?.groups;
+    if (groups) {
+      const setting = groups.setting.replace(/^(?:the|a|an)\s+/i, '').trim();
+      return { setting, on: on ?? groups.state.toLowerCase() === 'on' };
+    }
+  }
+  return null;
+}
+
+/**
+ * The change that switches a feature on or off, honoring the setting's polarity:
+ * "show banner" sets ui.hideBanner to false, "disable auto update" sets general.disableAutoUpdate to true
+ */
+function switchSetting(setting: string, on: boolean, notes: string[]): ConfigChange | null {
+  const path = mapSettingToPath(setting, notes);
+  if (!path) {
+    return null;
+  }
+
+  const spokenName = (setting.split('.').pop() ?? setting).replace(/[-\s]/g, '').toLowerCase();
+  const inverted = getSettingPolarity(path) === 'negative' && !NEGATED_SETTING_NAME.test(spokenName);
+  return { path, value: inverted ? !on : on, operation: 'set' };
+}
+
+/**
+ * Parse a single natural language configuration clause
  *
  * Examples:
  * - "enable vim mode" -> set general.vimMode to true
  * - "disable auto update" -> set general.disableAutoUpdate to true
+ * - "show the banner" / "turn the banner back on" -> set ui.hideBanner to false
+ * - "stop doing auto updates" -> set general.disableAutoUpdate to true
  * - "set theme to GitHub" -> set ui.theme to "GitHub"
+ * - "increase max turns to 50" -> set model.maxSessionTurns to 50
+ * - "reset theme to default" -> remove ui.theme
  * - "add MCP server my-server with command node server.js" -> add to mcpServers
  * - "use model gemini-2.0-flash" -> set model.name to "gemini-2.0-flash"
  */
-export function parseConfigInstruction(instruction: string): ConfigChange[] {
+function parseClause(instruction: string, notes: string[]): ConfigChange[] {
   const lowerInstruction = instruction.toLowerCase().trim();
   const originalInstruction = instruction.trim();
   const changes: ConfigChange[] = [];
@@ -29,34 +203,33 @@ export function parseConfigInstruction(instruction: string): ConfigChange[] {
 
   // Remove common articles and prepositions for better parsing
   const cleanedLower = lowerInstruction.replace(/\b(the|a|an)\b/g, '').replace(/\s+/g, ' ').trim();
+  const switched = matchSwitch(originalInstruction);
+  const assignment = originalInstruction.match(ASSIGN_PATTERN);
+  const reset = originalInstruction.match(RESET_PATTERN);
 
-  // Pattern: enable/turn on X
-  if (cleanedLower.match(/^(enable|turn on)\s+(.+)$/)) {
-    const setting = cleanedLower.replace(/^(enable|turn on)\s+/, '');
-    const path = mapSettingToPath(setting, true);
-    if (path) {
-      changes.push({ path, value: true, operation: 'set' });
+  // Pattern: enable/disable, turn on/off, show/hide, stop/start X
+  if (switched) {
+    const change = switchSetting(switched.setting, switched.on, notes);
+    if (change) {
+      changes.push(change);
     }
   }
-  // Pattern: disable/turn off X
-  else if (cleanedLower.match(/^(disable|turn off)\s+(.+)$/)) {
-    const setting = cleanedLower.replace(/^(disable|turn off)\s+/, '');
-    const path = mapSettingToPath(setting, false);
+  // Pattern: set/change/increase/decrease X to Y
+  else if (assignment) {
+    const setting = assignment[1].trim(); // Original case keeps literal paths intact
+    const value = assignment[2].trim(); // Use original case for value
+    const path = mapSettingToPath(setting, notes);
     if (path) {
-      changes.push({ path, value: true, operation: 'set' });
+      changes.push({ path, value: parseValue(value), operation: 'set' });
     }
   }
-  // Pattern: set X to Y
-  else if (cleanedLower.match(/^set\s+(.+?)\s+to\s+(.+)$/)) {
-    const lowerMatch = cleanedLower.match(/^set\s+(.+?)\s+to\s+(.+)$/);
-    const originalMatch = originalInstruction.match(/^set\s+(?:the\s+|a\s+|an\s+)?(.+?)\s+to\s+(.+)$/i);
-    if (lowerMatch && originalMatch) {
-      const setting = lowerMatch[1].trim();
-      const value = originalMatch[2].trim(); // Use original case for value
-      const path = mapSettingToPath(setting);
-      if (path) {
-        changes.push({ path, value: parseValue(value), operation: 'set' });
-      }
+  // Pattern: reset X (to default); removing the setting restores its default
+  else if (reset) {
+    const path = mapSettingToPath(reset[1].trim(), notes);
+    if (path && (!reset[2] || DEFAULT_VALUE.test(reset[2].trim()))) {
+      changes.push({ path, value: undefined, operation: 'remove' });
+    } else if (path && reset[2]) {
+      changes.push({ path, value: parseValue(reset[2]), operation: 'set' });
     }
   }
   // Pattern: use/select X Y (e.g., "use model gemini-2.0-flash")
@@ -64,9 +237,9 @@ export function parseConfigInstruction(instruction: string): ConfigChange[] {
     const lowerMatch = cleanedLower.match(/^(use|select)\s+(.+?)\s+(.+)$/);
     const originalMatch = originalInstruction.match(/^(use|select)\s+(?:the\s+|a\s+|an\s+)?(.+?)\s+(.+)$/i);
     if (lowerMatch && originalMatch) {
-      const setting = lowerMatch[2].trim();
+      const setting = originalMatch[2].trim(); // Original case keeps literal paths intact
       const value = originalMatch[3].trim(); // Use original case for value
-      const path = mapSettingToPath(`${setting}`);
+      const path = mapSettingToPath(setting, notes);
       if (path) {
         changes.push({ path, value: parseValue(value), operation: 'set' });
       }
@@ -90,70 +263,77 @@ export function parseConfigInstruction(instruction: string): ConfigChange[] {
 }
 
 /**
- * Map common setting names to configuration paths
+ * Common setting names (lowercase, without spaces or dashes) and the paths they map to
  */
-function mapSettingToPath(setting: string, isEnable?: boolean): string | null {
-  const normalized = setting.replace(/[-\s]/g, '').toLowerCase();
-
-  // Common settings map
-  const settingsMap: Record<string, string> = {
-    // General
-    vimmode: 'general.vimMode',
-    vim: 'general.vimMode',
-    autoupdate: 'general.disableAutoUpdate',
-    updates: 'general.disableAutoUpdate',
-    promptcompletion: 'general.enablePromptCompletion',
-    checkpointing: 'general.checkpointing.enabled',
-    checkpoint: 'general.checkpointing.enabled',
-
-    // UI
-    theme: 'ui.theme',
-    banner: 'ui.hideBanner',
-    linenumbers: 'ui.showLineNumbers',
-    citations: 'ui.showCitations',
-    fullwidth: 'ui.useFullWidth',
-    accessibility: 'ui.accessibility',
-
-    // Model
-    model: 'model.name',
-    maxturns: 'model.maxSessionTurns',
-    sessionturns: 'model.maxSessionTurns',
-
-    // Tools
-    sandbox: 'tools.sandbox',
-    autoaccept: 'tools.autoAccept',
-    interactiveshell: 'tools.shell.enableInteractiveShell',
-    ripgrep: 'tools.useRipgrep',
-
-    // Context
-    gitignore: 'context.fileFiltering.respectGitIgnore',
-    geminiignore: 'context.fileFiltering.respectGeminiIgnore',
-
-    // Privacy
-    telemetry: 'privacy.usageStatisticsEnabled',
-    statistics: 'privacy.usageStatisticsEnabled',
-  };
+const SETTING_ALIASES: Record<string, string> = {
+  // General
+  vimmode: 'general.vimMode',
+  vim: 'general.vimMode',
+  autoupdate: 'general.disableAutoUpdate',
+  autoupdates: 'general.disableAutoUpdate',
+  automaticupdates: 'general.disableAutoUpdate',
+  update: 'general.disableAutoUpdate',
+  updates: 'general.disableAutoUpdate',
+  updatenag: 'general.disableUpdateNag',
+  promptcompletion: 'general.enablePromptCompletion',
+  checkpointing: 'general.checkpointing.enabled',
+  checkpoint: 'general.checkpointing.enabled',
 
-  let path = settingsMap[normalized];
+  // UI
+  theme: 'ui.theme',
+  banner: 'ui.hideBanner',
+  tips: 'ui.hideTips',
+  footer: 'ui.hideFooter',
+  windowtitle: 'ui.hideWindowTitle',
+  contextsummary: 'ui.hideContextSummary',
+  loadingphrases: 'ui.accessibility.disableLoadingPhrases',
+  linenumbers: 'ui.showLineNumbers',
+  citations: 'ui.showCitations',
+  fullwidth: 'ui.useFullWidth',
+  accessibility: 'ui.accessibility',
 
-  // Handle special cases for enable/disable
-  if (isEnable !== undefined) {
-    // For "disable auto update", we set disableAutoUpdate to true
-    if (normalized.includes('update')) {
-      return 'general.disableAutoUpdate';
-    }
-    // For other disable/enable, invert if the setting name contains "disable"
-    if (path && path.includes('disable') && isEnable === true) {
-      // "enable auto update" = set disableAutoUpdate to false
-      return path;
-    }
+  // Model
+  model: 'model.name',
+  maxturns: 'model.maxSessionTurns',
+  sessionturns: 'model.maxSessionTurns',
+
+  // Tools
+  sandbox: 'tools.sandbox',
+  autoaccept: 'tools.autoAccept',
+  interactiveshell: 'tools.shell.enableInteractiveShell',
+  ripgrep: 'tools.useRipgrep',
+
+  // Context
+  gitignore: 'context.fileFiltering.respectGitIgnore',
+  geminiignore: 'context.fileFiltering.respectGeminiIgnore',
+
+  // Privacy
+  telemetry: 'privacy.usageStatisticsEnabled',
+  statistics: 'privacy.usageStatisticsEnabled',
+};
+
+/**
+ * Map common setting names to configuration paths.
+ * Falls back to literal dotted paths and fuzzy matching against the settings registry;
+ * ambiguous names are not guessed, and suggestions are added to notes instead.
+ */
+function mapSettingToPath(setting: string, notes: string[]): string | null {
+  const resolution = resolveSettingName(setting, SETTING_ALIASES);
+
+  if (resolution.match === 'fuzzy' && resolution.path) {
+    notes.push(`Interpreted "${setting}" as ${resolution.path}`);
   }
 
-  if (!path) {
+  if (!resolution.path) {
     logger.warn(`Unknown setting: "${setting}"`);
+    notes.push(
+      resolution.suggestions.length > 0
+        ? `Unknown setting "${setting}". Did you mean: ${resolution.suggestions.join(', ')}?`
+        : `Unknown setting "${setting}"`
+    );
   }
 
-  return path || null;
+  return resolution.path;
 }
 
 /**
@@ -195,23 +375,38 @@ function parseMCPServerAddition(instruction: string): ConfigChange | null {
 
   const serverName = nameMatch[1];
 
-  // Extract command
-  const commandMatch = instruction.match(/(?:command|run)\s+(.+?)(?:\s+with\s+args|\s+args:|\s*$)/i);
+  // Extract command (a full command line is split shell-style)
+  const commandMatch = instruction.match(/(?:command|run)\s+(.+?)(?:\s+(?:with\s+)?args?\b:?|\s*$)/i);
   if (!commandMatch) {
     logger.warn('Could not extract command from instruction');
     return null;
   }
 
-  const command = commandMatch[1].trim();
+  let serverConfig: { command: string; args?: string[] };
 
-  // Extract args if present
-  const argsMatch = instruction.match(/args?:?\s+\[?(.+?)\]?\s*$/i);
-  const args = argsMatch ? argsMatch[1].split(/[,\s]+/).map(a => a.trim()) : [];
+  try {
+    const [command, ...inlineArgs] = parseShellArgs(commandMatch[1].trim());
 
-  const serverConfig = {
-    command,
-    ...(args.length > 0 ? { args } : {}),
-  };
+    // Extract args if present: "args a b", "args: a, b" or "args [a, b]"
+    const argsText = instruction
+      .slice((commandMatch.index ?? 0) + commandMatch[0].length)
+      .trim()
+      .replace(/^\[(.*)\]$/, '$1');
+    let args = inlineArgs;
+    if (argsText) {
+      args = argsText.includes(',')
+        ? argsText.split(',').map((a) => parseShellArgs(a.trim()).join(' ')).filter(Boolean)
+        : parseShellArgs(argsText);
+    }
+
+    serverConfig = {
+      command,
+      ...(args.length > 0 ? { args } : {}),
+    };
+  } catch (error) {
+    logger.warn(`Could not parse MCP server command: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
 
   return {
     path: `mcpServers.${serverName}`,
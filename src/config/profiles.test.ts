@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { exportProfile, getProfile, importProfile, saveProfile } from './profiles.js';
+import { manageGeminiProfiles } from '../tools/profiles.js';
+
+describe('configuration profiles', () => {
+  let root: string;
+  let project: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const settingsPath = (scope: 'user' | 'project') =>
+    scope === 'user' ? join(root, 'home', '.gemini', 'settings.json') : join(project, '.gemini', 'settings.json');
+  const writeSettings = (scope: 'user' | 'project', config: Record<string, unknown>) =>
+    writeFileSync(settingsPath(scope), JSON.stringify(config, null, 2));
+  const readSettings = (scope: 'user' | 'project') => JSON.parse(readFileSync(settingsPath(scope), 'utf-8'));
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'profiles-test-'));
+    project = join(root, 'project');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(project, '.gemini'), { recursive: true });
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('saves leaf settings, expands groups and reports unset paths', () => {
+    writeSettings('user', { general: { vimMode: true }, ui: { theme: 'GitHub', hideTips: true } });
+
+    const { profile, missing } = saveProfile('pairing', ['general.vimMode', 'ui', 'tools.sandbox'], 'user', {
+      projectDir: project,
+    });
+
+    expect(profile.settings).toEqual({ 'general.vimMode': true, 'ui.theme': 'GitHub', 'ui.hideTips': true });
+    expect(missing).toEqual(['tools.sandbox']);
+    expect(getProfile('pairing')).toEqual(profile);
+    expect(() => saveProfile('pairing', ['ui'], 'user', { projectDir: project })).toThrow('already exists');
+    expect(() => saveProfile('pair ing', ['ui'], 'user', { projectDir: project })).toThrow('Profile names');
+  });
+
+  it('applies only the settings that differ', async () => {
+    writeSettings('user', { general: { vimMode: true }, ui: { theme: 'GitHub' } });
+    saveProfile('pairing', ['general.vimMode', 'ui.theme'], 'user', { projectDir: project });
+    writeSettings('project', { ui: { theme: 'GitHub' }, tools: { sandbox: true } });
+
+    const result = await manageGeminiProfiles({ action: 'apply', name: 'pairing', scope: 'project', projectDir: project });
+
+    expect(result.structuredContent).toMatchObject({
+      success: true,
+      changes: [{ path: 'general.vimMode', newValue: true }],
+    });
+    expect(readSettings('project')).toEqual({ ui: { theme: 'GitHub' }, tools: { sandbox: true }, general: { vimMode: true } });
+
+    const again = await manageGeminiProfiles({ action: 'apply', name: 'pairing', scope: 'project', projectDir: project });
+    expect(again.structuredContent).toMatchObject({ success: true, changes: [] });
+  });
+
+  it('exports credentials as environment variable references', () => {
+    writeSettings('user', {
+      mcpServers: {
+        api: {
+          httpUrl: 'https://example.com/mcp',
+          headers: { Authorization: 'Bearer abc123secretvalue', 'X-Trace': 'on' },
+        },
+        local: { command: 'node', env: { API_KEY: 'plain-text-key', TOKEN: '$TOKEN' } },
+      },
+      security: { auth: { selectedType: 'gemini-api-key' } },
+    });
+    saveProfile('team', ['mcpServers', 'security.auth.selectedType'], 'user', { projectDir: project });
+    const filePath = join(root, 'shared', 'team.json');
+
+    const result = exportProfile('team', filePath);
+    const written = JSON.parse(readFileSync(filePath, 'utf-8'));
+
+    expect(written.version).toBe(1);
+    expect(written.settings).toEqual(result.profile.settings);
+    expect(written.settings['security.auth.selectedType']).toBe('gemini-api-key');
+    expect(written.settings.mcpServers).toEqual({
+      api: { httpUrl: 'https://example.com/mcp', headers: { Authorization: 'Bearer $AUTHORIZATION', 'X-Trace': 'on' } },
+      local: { command: 'node', env: { API_KEY: '$API_KEY', TOKEN: '$TOKEN' } },
+    });
+    expect(result.warnings).toEqual([
+      'mcpServers.api.headers.Authorization held a credential and was exported as "Bearer $AUTHORIZATION"; set AUTHORIZATION where the profile is used',
+      'mcpServers.local.env.API_KEY held a credential and was exported as "$API_KEY"; set API_KEY where the profile is used',
+    ]);
+    expect(JSON.stringify(getProfile('team'))).toContain('plain-text-key');
+  });
+
+  it('refuses to replace an existing export file unless asked to', () => {
+    writeSettings('user', { ui: { theme: 'GitHub' } });
+    saveProfile('theme', ['ui.theme'], 'user', { projectDir: project });
+    const filePath = join(root, 'theme.json');
+    writeFileSync(filePath, 'keep me');
+
+    expect(() => exportProfile('theme', filePath)).toThrow('already exists; pass overwrite to replace it');
+    expect(readFileSync(filePath, 'utf-8')).toBe('keep me');
+
+    exportProfile('theme', filePath, { overwrite: true });
+    expect(JSON.parse(readFileSync(filePath, 'utf-8')).settings).toEqual({ 'ui.theme': 'GitHub' });
+  });
+
+  it('imports a profile file, validating its settings', () => {
+    const filePath = join(root, 'shared.json');
+    writeFileSync(filePath, JSON.stringify({ version: 1, name: 'shared', settings: { 'general.vimMode': true, 'x.custom': 1 } }));
+
+    const { profile, warnings } = importProfile(filePath, { name: 'mine' });
+
+    expect(profile).toMatchObject({ name: 'mine', settings: { 'general.vimMode': true, 'x.custom': 1 } });
+    expect(warnings).toEqual(['x.custom is not a known Gemini CLI setting']);
+    expect(getProfile('mine')).toEqual(profile);
+    expect(() => importProfile(filePath, { name: 'mine' })).toThrow('already exists');
+
+    writeFileSync(filePath, JSON.stringify({ name: 'bad', settings: { 'general.vimMode': 'sometimes' } }));
+    expect(() => importProfile(filePath)).toThrow('has invalid settings');
+    writeFileSync(filePath, JSON.stringify({ version: 2, name: 'future', settings: { 'general.vimMode': true } }));
+    expect(() => importProfile(filePath)).toThrow('newer format');
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Named configuration profiles: saved subsets of settings that can be re-applied
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from 'fs';
+import { join, dirname, resolve } from 'path';
+import { homedir } from 'os';
+import { isDeepStrictEqual } from 'util';
+import { z } from 'zod';
+import { loadConfig, type ConfigScope } from './loader.js';
+import { getNestedValue, flattenConfig } from './merge.js';
+import { validateSettingValue, isKnownSetting, findSetting } from './registry.js';
+import type { ConfigChange } from './parser.js';
+import { isEnvReferenceOnly } from './envVars.js';
+import { isSecretKey, looksLikeSecret } from './redact.js';
+import { validateSchema } from '../utils/validation.js';
+
+// Version of the exported profile file format
+const PROFILE_FORMAT_VERSION = 1;
+
+// "Bearer <token>" and the like: the scheme is kept when the token is replaced
+const AUTH_SCHEME_PREFIX = /^((?:bearer|basic|token)\s+)/i;
+
+export interface ConfigProfile {
+  name: string;
+  description?: string;
+  createdAt: string;
+  // Scope the settings were captured from
+  source?: ConfigScope;
+  // Setting path -> value
+  settings: Record<string, unknown>;
+}
+
+const profileNameSchema = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, 'Profile names may only contain letters, digits, "-" and "_"');
+
+const profileSchema = z.object({
+  name: profileNameSchema,
+  description: z.string().optional(),
+  createdAt: z.string().optional(),
+  source: z.enum(['user', 'project']).optional(),
+  settings: z.record(z.unknown()).refine((settings) => Object.keys(settings).length > 0, 'settings is empty'),
+});
+
+const profileFileSchema = profileSchema.extend({ version: z.number().int().optional() });
+
+/**
+ * Get the path of the local profile store
+ */
+export function getProfilesPath(): string {
+  return join(homedir(), '.gemini', 'assistant-profiles.json');
+}
+
+/**
+ * Read all stored profiles, keyed by name
+ */
+export function readProfiles(): Record<string, ConfigProfile> {
+  const profilesPath = getProfilesPath();
+  if (!existsSync(profilesPath)) {
+    return {};
+  }
+  const data = JSON.parse(readFileSync(profilesPath, 'utf-8')) as { profiles?: Record<string, ConfigProfile> };
+  return data.profiles ?? {};
+}
+
+function writeProfiles(profiles: Record<string, ConfigProfile>): void {
+  const profilesPath = getProfilesPath();
+  mkdirSync(dirname(profilesPath), { recursive: true });
+  const tempPath = `${profilesPath}.tmp-${process.pid}`;
+  writeFileSync(tempPath, JSON.stringify({ profiles }, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, profilesPath);
+}
+
+export function getProfile(name: string): ConfigProfile {
+  const profile = readProfiles()[name];
+  if (!profile) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+  return profile;
+}
+
+function storeProfile(profile: ConfigProfile, overwrite: boolean): void {
+  const profiles = readProfiles();
+  if (profiles[profile.name] && !overwrite) {
+    throw new Error(`Profile "${profile.name}" already exists; pass overwrite to replace it`);
+  }
+  profiles[profile.name] = profile;
+  writeProfiles(profiles);
+}
+
+/**
+ * Check every setting of a profile against the registry
+ */
+function validateProfileSettings(settings: Record<string, unknown>): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  for (const [path, value] of Object.entries(settings)) {
+    const result = validateSettingValue(path, value);
+    if (!result.success) {
+      errors.push(result.error);
+    } else if (!isKnownSetting(path)) {
+      warnings.push(`${path} is not a known Gemini CLI setting`);
+    }
+  }
+
+  return { errors, warnings };
+}
+
+/**
+ * Capture the current values of setting paths from a scope into a named profile.
+ * A path naming a group of settings (e.g. "ui") captures each setting below it.
+ */
+export function saveProfile(
+  name: string,
+  paths: string[],
+  scope: ConfigScope,
+  options: { description?: string; overwrite?: boolean; projectDir?: string } = {}
+): { profile: ConfigProfile; missing: string[] } {
+  const validation = validateSchema(profileNameSchema, name);
+  if (!validation.success) {
+    throw new Error(validation.error);
+  }
+
+  const config = loadConfig(scope, options.projectDir) ?? {};
+  const settings: Record<string, unknown> = {};
+  const missing: string[] = [];
+
+  for (const path of paths.map((entry) => entry.trim()).filter(Boolean)) {
+    const value = getNestedValue(config, path);
+    if (value === undefined) {
+      missing.push(path);
+    } else if (typeof value === 'object' && value !== null && !Array.isArray(value) && !findSetting(path)) {
+      for (const [leafPath, leafValue] of flattenConfig(value as Record<string, unknown>, path)) {
+        settings[leafPath] = leafValue;
+      }
+    } else {
+      settings[path] = value;
+    }
+  }
+
+  if (Object.keys(settings).length === 0) {
+    throw new Error(`None of the paths are set in ${scope} settings: ${missing.join(', ')}`);
+  }
+
+  const profile: ConfigProfile = {
+    name,
+    ...(options.description ? { description: options.description } : {}),
+    createdAt: new Date().toISOString(),
+    source: scope,
+    settings: structuredClone(settings),
+  };
+  storeProfile(profile, options.overwrite ?? false);
+
+  return { profile, missing };
+}
+
+export function deleteProfile(name: string): ConfigProfile {
+  const profiles = readProfiles();
+  const profile = profiles[name];
+  if (!profile) {
+    throw new Error(`Profile "${name}" does not exist`);
+  }
+  delete profiles[name];
+  writeProfiles(profiles);
+  return profile;
+}
+
+/**
+ * The changes that bring a scope in line with a profile; settings that already match are skipped
+ */
+export function getProfileChanges(profile: ConfigProfile, scope: ConfigScope, projectDir?: string): ConfigChange[] {
+  const config = loadConfig(scope, projectDir) ?? {};
+  return Object.entries(profile.settings)
+    .filter(([path, value]) => !isDeepStrictEqual(getNestedValue(config, path), value))
+    .map(([path, value]) => ({ path, operation: 'set', value: structuredClone(value) }));
+}
+
+/**
+ * Replace the credentials in a profile value with environment variable references, so an exported
+ * file can be shared. Each replacement adds a warning naming the variable to set.
+ */
+function replaceSecrets(value: unknown, path: string, warnings: string[]): unknown {
+  if (typeof value === 'string') {
+    const key = path.split('.').pop() ?? '';
+    const scheme = AUTH_SCHEME_PREFIX.exec(value)?.[1] ?? '';
+    if (isEnvReferenceOnly(value.slice(scheme.length)) || !(isSecretKey(key) || looksLikeSecret(value))) {
+      return value;
+    }
+    const variable = key.toUpperCase().replace(/[^A-Z0-9_]/g, '_').replace(/^(?=[0-9])/, '_');
+    warnings.push(`${path} held a credential and was exported as "${scheme}$${variable}"; set ${variable} where the profile is used`);
+    return `${scheme}$${variable}`;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => replaceSecrets(item, `${path}.${index}`, warnings));
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceSecrets(item, `${path}.${key}`, warnings)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Write a profile to a JSON file for sharing, with credentials replaced by environment variable references
+ */
+export function exportProfile(
+  name: string,
+  filePath: string,
+  options: { overwrite?: boolean } = {}
+): { filePath: string; profile: ConfigProfile; warnings: string[] } {
+  const stored = getProfile(name);
+  const target = resolve(filePath);
+  if (existsSync(target) && !options.overwrite) {
+    throw new Error(`${target} already exists; pass overwrite to replace it`);
+  }
+
+  const warnings: string[] = [];
+  const settings = Object.fromEntries(
+    Object.entries(stored.settings).map(([path, value]) => [path, replaceSecrets(value, path, warnings)])
+  );
+  const profile: ConfigProfile = { ...stored, settings };
+
+  mkdirSync(dirname(target), { recursive: true });
+  const tempPath = `${target}.tmp-${process.pid}`;
+  writeFileSync(tempPath, JSON.stringify({ version: PROFILE_FORMAT_VERSION, ...profile }, null, 2) + '\n', 'utf-8');
+  renameSync(tempPath, target);
+  return { filePath: target, profile, warnings };
+}
+
+/**
+ * Import a profile from a JSON file, validating its settings before storing it
+ */
+export function importProfile(
+  filePath: string,
+  options: { name?: string; overwrite?: boolean } = {}
+): { profile: ConfigProfile; warnings: string[] } {
+  const source = resolve(filePath);
+  if (!existsSync(source)) {
+    throw new Error(`Profile file ${source} does not exist`);
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(readFileSync(source, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid profile file ${source}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (options.name && typeof data === 'object' && data !== null) {
+    data = { ...data, name: options.name };
+  }
+
+  const parsed = validateSchema(profileFileSchema, data);
+  if (!parsed.success) {
+    throw new Error(`Invalid profile file ${source}: ${parsed.error}`);
+  }
+  if (parsed.data.version !== undefined && parsed.data.version > PROFILE_FORMAT_VERSION) {
+    throw new Error(`Profile file ${source} uses a newer format (version ${parsed.data.version})`);
+  }
+
+  const { errors, warnings } = validateProfileSettings(parsed.data.settings);
+  if (errors.length > 0) {
+    throw new Error(`Profile "${parsed.data.name}" has invalid settings: ${errors.join('; ')}`);
+  }
+
+  const profile: ConfigProfile = {
+    name: parsed.data.name,
+    ...(parsed.data.description ? { description: parsed.data.description } : {}),
+    createdAt: parsed.data.createdAt ?? new Date().toISOString(),
+    ...(parsed.data.source ? { source: parsed.data.source } : {}),
+    settings: parsed.data.settings,
+  };
+  storeProfile(profile, options.overwrite ?? false);
+
+  return { profile, warnings };
+}
@@ -0,0 +1,279 @@
+/**
+ * Redaction of credentials in tool output
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { isEnvReferenceOnly, isSecretPath } from './envVars.js';
+import { loadConfigLayers } from './merge.js';
+import { logger } from '../utils/logger.js';
+
+export const REDACTED = '[redacted]';
+
+export interface RedactionOptions {
+  // Setting paths (and everything below them) whose values are shown in plain text
+  reveal?: string[];
+  // Setting path held by the top-level "value" field of the output, '' for the whole config
+  valuePath?: string;
+  // Project whose settings hold the secrets to look for in free-text results (defaults to the workspace root)
+  projectDir?: string;
+}
+
+// Fields of an entry such as { path, oldValue, newValue } that hold the value of the setting at "path"
+const VALUE_FIELDS = new Set(['value', 'oldValue', 'newValue', 'raw', 'resolved']);
+
+// Secret-looking key names that describe a credential rather than hold one
+const NON_SECRET_KEY = /(type|url|uri|provider|enabled|mode|file|path)$/i;
+
+// Well-known credential prefixes (Google, OpenAI/Anthropic, GitHub, GitLab, Slack)
+const KNOWN_TOKEN = /^(AIza[0-9A-Za-z_-]{20,}|sk-[A-Za-z0-9_-]{16,}|gh[pousr]_[A-Za-z0-9]{20,}|github_pat_\w{20,}|glpat-[\w-]{20,}|xox[abpr]-[\w-]{10,})$/;
+
+const AUTH_SCHEME = /^(bearer|basic|token)\s+\S+/i;
+
+// Candidate tokens inside free text
+const TOKEN_IN_TEXT = /(?<![\w+/=.-])[A-Za-z0-9+/_=-]{20,}(?![\w+/=.-])/g;
+const JSON_PAIR_IN_TEXT = /"([^"\\]+)"(\s*:\s*)"((?:[^"\\]|\\.)*)"/g;
+const AUTH_IN_TEXT = /\b(Bearer|Basic)(\s+)([A-Za-z0-9._~+/=-]+)/g;
+
+/**
+ * Whether a setting key names a credential (apiKey, Authorization) rather than describing one (authType)
+ */
+export function isSecretKey(key: string): boolean {
+  return isSecretPath(key) && !NON_SECRET_KEY.test(key);
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+function entropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let bits = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+/**
+ * Heuristic: does this value look like a credential regardless of its key?
+ */
+export function looksLikeSecret(value: string): boolean {
+  const text = value.trim();
+  if (KNOWN_TOKEN.test(text) || AUTH_SCHEME.test(text)) {
+    return true;
+  }
+  // Long, random-looking tokens: mixed letters and digits, no word separators, high entropy
+  return (
+    text.length >= 20 &&
+    /^[A-Za-z0-9+/_=-]+$/.test(text) &&
+    /[0-9]/.test(text) &&
+    /[A-Za-z]/.test(text) &&
+    !text.startsWith('/') &&
+    entropy(text) >= 4
+  );
+}
+
+function isRevealed(path: string | undefined, reveal: string[]): boolean {
+  return path !== undefined && reveal.some((entry) => path === entry || path.startsWith(`${entry}.`));
+}
+
+function joinPath(path: string | undefined, key: string): string | undefined {
+  if (path === undefined) {
+    return undefined;
+  }
+  return path ? `${path}.${key}` : key;
+}
+
+type StringKind = 'secret' | 'revealed' | 'text';
+
+/**
+ * Rebuild a tool output, passing every string through visit with its classification.
+ * In "data" mode the value belongs to the setting at path; in "meta" mode it is part of
+ * the tool's own output structure, where entries with a "path" field name the setting
+ * their value fields belong to.
+ */
+function mapStrings(
+  value: unknown,
+  mode: 'data' | 'meta',
+  path: string | undefined,
+  key: string,
+  reveal: string[],
+  visit: (text: string, kind: StringKind) => string
+): unknown {
+  if (typeof value === 'string') {
+    // "$API_KEY" names a secret without holding it; "p$ssw0rd" or "Bearer $TOKEN-suffix" still holds literal text
+    if (value === REDACTED || isEnvReferenceOnly(value)) {
+      return visit(value, 'text');
+    }
+    const name = mode === 'data' && path ? (path.split('.').pop() ?? key) : key;
+    if (isSecretKey(name) || (mode === 'data' && looksLikeSecret(value))) {
+      return visit(value, isRevealed(path, reveal) ? 'revealed' : 'secret');
+    }
+    return visit(value, 'text');
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      mapStrings(item, mode, mode === 'data' ? joinPath(path, String(index)) : path, key, reveal, visit)
+    );
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    const entryPath = mode === 'meta' && typeof (value as { path?: unknown }).path === 'string'
+      ? (value as { path: string }).path
+      : path;
+    return Object.fromEntries(
+      Object.entries(value).map(([childKey, child]) => {
+        if (mode === 'data') {
+          return [childKey, mapStrings(child, 'data', joinPath(path, childKey), childKey, reveal, visit)];
+        }
+        if (childKey === 'path') {
+          return [childKey, child];
+        }
+        const childMode = VALUE_FIELDS.has(childKey) && entryPath !== undefined ? 'data' : 'meta';
+        return [childKey, mapStrings(child, childMode, entryPath, childKey, reveal, visit)];
+      })
+    );
+  }
+
+  return value;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Redact credentials inside free text (previews, diffs, messages).
+ * known: secret values found in the structured output; revealed: values the caller asked to see.
+ */
+export function redactText(text: string, known: Iterable<string> = [], revealed: Iterable<string> = []): string {
+  const keep = new Set(revealed);
+  let result = text;
+
+  // Exact values, also in their JSON-escaped form; longest first so overlapping values redact fully
+  const values = Array.from(new Set(known))
+    .filter((value) => value.length >= 4 && !keep.has(value))
+    .flatMap((value) => [value, JSON.stringify(value).slice(1, -1)])
+    .sort((a, b) => b.length - a.length);
+  for (const value of new Set(values)) {
+    result = result.replace(new RegExp(escapeRegExp(value), 'g'), REDACTED);
+  }
+
+  result = result.replace(JSON_PAIR_IN_TEXT, (match, key: string, separator: string, value: string) =>
+    isSecretKey(key) && value !== REDACTED && !isEnvReferenceOnly(value) && !keep.has(value)
+      ? `"${key}"${separator}"${REDACTED}"`
+      : match
+  );
+  result = result.replace(AUTH_IN_TEXT, (match, scheme: string, space: string, token: string) =>
+    token === REDACTED || isEnvReferenceOnly(token) || keep.has(token) || keep.has(`${scheme}${space}${token}`)
+      ? match
+      : `${scheme}${space}${REDACTED}`
+  );
+  return result.replace(TOKEN_IN_TEXT, (token) => (looksLikeSecret(token) && !keep.has(token) ? REDACTED : token));
+}
+
+function normalizeReveal(options: RedactionOptions): string[] {
+  return (options.reveal ?? []).map((entry) => entry.trim()).filter(Boolean);
+}
+
+/**
+ * The secret values stored in the settings files, so free text quoting them (e.g. an error message) can be redacted
+ */
+export function findConfigSecrets(options: RedactionOptions = {}): { known: Set<string>; revealed: Set<string> } {
+  const reveal = normalizeReveal(options);
+  const known = new Set<string>();
+  const revealed = new Set<string>();
+
+  let layers;
+  try {
+    layers = loadConfigLayers(options.projectDir);
+  } catch (error) {
+    // An unreadable settings file can't leak its values; fall back to the workspace root
+    logger.debug(`Could not load settings for redaction: ${error instanceof Error ? error.message : String(error)}`);
+    try {
+      layers = loadConfigLayers();
+    } catch {
+      return { known, revealed };
+    }
+  }
+
+  for (const layer of layers) {
+    if (layer.name !== 'default' && layer.config) {
+      mapStrings(layer.config, 'data', '', '', reveal, (text, kind) => {
+        if (kind === 'secret') {
+          known.add(text);
+        } else if (kind === 'revealed') {
+          revealed.add(text);
+        }
+        return text;
+      });
+    }
+  }
+  return { known, revealed };
+}
+
+/**
+ * Redact credentials in a structured tool output
+ */
+export function redactSecrets<T>(output: T, options: RedactionOptions = {}): T {
+  const reveal = normalizeReveal(options);
+  const known = new Set<string>();
+  const revealed = new Set<string>();
+  const walk = (visit: (text: string, kind: StringKind) => string): unknown => {
+    if (options.valuePath === undefined || typeof output !== 'object' || output === null || Array.isArray(output)) {
+      return mapStrings(output, 'meta', undefined, '', reveal, visit);
+    }
+    // The top-level "value" holds the setting at valuePath
+    return mapStrings({ ...output, path: options.valuePath }, 'meta', undefined, '', reveal, visit);
+  };
+
+  // First pass: find the secrets, so the free text quoting them can be redacted in the second
+  walk((text, kind) => {
+    if (kind === 'secret') {
+      known.add(text);
+    } else if (kind === 'revealed') {
+      revealed.add(text);
+    }
+    return text;
+  });
+
+  const redacted = walk((text, kind) => {
+    if (kind === 'secret') {
+      return REDACTED;
+    }
+    return kind === 'revealed' ? text : redactText(text, known, revealed);
+  }) as Record<string, unknown>;
+
+  if (options.valuePath !== undefined && typeof redacted === 'object' && redacted !== null) {
+    delete redacted.path;
+  }
+  return redacted as T;
+}
+
+/**
+ * Redact credentials in a tool result: its structured content and its text content
+ */
+export function redactToolResult(result: CallToolResult, options: RedactionOptions = {}): CallToolResult {
+  const structured = result.structuredContent;
+  const redacted = structured ? redactSecrets(structured, options) : undefined;
+
+  // Free text (e.g. an error message) may quote a secret from the settings files verbatim
+  let configSecrets: { known: Set<string>; revealed: Set<string> } | undefined;
+
+  const content = result.content.map((item) => {
+    if (item.type !== 'text') {
+      return item;
+    }
+    if (structured && redacted && item.text === JSON.stringify(structured, null, 2)) {
+      return { ...item, text: JSON.stringify(redacted, null, 2) };
+    }
+    configSecrets ??= findConfigSecrets(options);
+    return { ...item, text: redactText(item.text, configSecrets.known, configSecrets.revealed) };
+  });
+
+  return { ...result, content, ...(redacted ? { structuredContent: redacted } : {}) };
+}
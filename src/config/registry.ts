@@ -0,0 +1,590 @@
+/**
+ * Typed registry of known Gemini CLI settings
+ */
+
+import { z } from 'zod';
+import { validateSchema } from '../utils/validation.js';
+import { mcpServerSchema } from './mcpSchema.js';
+
+export type SettingType = 'boolean' | 'string' | 'number' | 'enum' | 'array' | 'object';
+
+/**
+ * How values from multiple settings files are combined:
+ * - replace: the higher-precedence value wins (default for non-objects)
+ * - concat: arrays from all layers are concatenated
+ * - union: arrays from all layers are combined without duplicates
+ * - shallow: object entries are merged by key, each entry replaced as a whole
+ */
+export type MergeStrategy = 'replace' | 'concat' | 'union' | 'shallow';
+
+export interface SettingDefinition {
+  path: string;
+  type: SettingType | SettingType[];
+  description: string;
+  default?: unknown;
+  enumValues?: string[];
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  requiresRestart?: boolean;
+  securitySensitive?: boolean;
+  experimental?: boolean;
+  mergeStrategy?: MergeStrategy;
+  // Full schema for structured values, used instead of the generic type check
+  schema?: z.ZodTypeAny;
+  note?: string;
+}
+
+/**
+ * Known settings paths. A `*` segment matches any key (e.g. an MCP server name).
+ */
+export const SETTINGS_REGISTRY: SettingDefinition[] = [
+  // General
+  { path: 'general.preferredEditor', type: 'string', description: 'Preferred editor to open files in' },
+  { path: 'general.vimMode', type: 'boolean', default: false, description: 'Enable Vim keybindings' },
+  { path: 'general.disableAutoUpdate', type: 'boolean', default: false, description: 'Disable automatic updates' },
+  { path: 'general.disableUpdateNag', type: 'boolean', default: false, description: 'Disable update notification prompts' },
+  {
+    path: 'general.checkpointing.enabled',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    description: 'Enable session checkpointing for recovery',
+  },
+  {
+    path: 'general.enablePromptCompletion',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    description: 'Enable AI-powered prompt completion suggestions while typing',
+  },
+  { path: 'general.retryFetchErrors', type: 'boolean', default: false, description: 'Retry on "exception TypeError: fetch failed sending request" errors' },
+  { path: 'general.debugKeystrokeLogging', type: 'boolean', default: false, description: 'Enable debug logging of keystrokes to the console' },
+
+  // Output
+  { path: 'output.format', type: 'enum', enumValues: ['text', 'json'], default: 'text', description: 'The format of the CLI output' },
+
+  // UI
+  { path: 'ui.theme', type: 'string', description: 'The color theme for the UI' },
+  { path: 'ui.customThemes', type: 'object', default: {}, mergeStrategy: 'shallow', description: 'Custom theme definitions' },
+  { path: 'ui.hideWindowTitle', type: 'boolean', default: false, requiresRestart: true, description: 'Hide the window title bar' },
+  { path: 'ui.hideTips', type: 'boolean', default: false, description: 'Hide helpful tips in the UI' },
+  { path: 'ui.hideBanner', type: 'boolean', default: false, description: 'Hide the application banner' },
+  { path: 'ui.hideContextSummary', type: 'boolean', default: false, description: 'Hide the context summary above the input' },
+  { path: 'ui.footer.hideCWD', type: 'boolean', default: false, description: 'Hide the current working directory path in the footer' },
+  { path: 'ui.footer.hideSandboxStatus', type: 'boolean', default: false, description: 'Hide the sandbox status indicator in the footer' },
+  { path: 'ui.footer.hideModelInfo', type: 'boolean', default: false, description: 'Hide the model name and context usage in the footer' },
+  { path: 'ui.hideFooter', type: 'boolean', default: false, description: 'Hide the footer from the UI' },
+  { path: 'ui.showMemoryUsage', type: 'boolean', default: false, description: 'Display memory usage information in the UI' },
+  { path: 'ui.showLineNumbers', type: 'boolean', default: false, description: 'Show line numbers in the chat' },
+  { path: 'ui.showCitations', type: 'boolean', default: false, description: 'Show citations for generated text' },
+  { path: 'ui.useFullWidth', type: 'boolean', default: false, description: 'Use the entire width of the terminal for output' },
+  { path: 'ui.customWittyPhrases', type: 'array', default: [], description: 'Custom witty phrases to display during loading' },
+  {
+    path: 'ui.accessibility.disableLoadingPhrases',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    description: 'Disable loading phrases for accessibility',
+  },
+  {
+    path: 'ui.accessibility.screenReader',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    description: 'Render output in plain text to be more screen reader accessible',
+  },
+
+  // IDE
+  { path: 'ide.enabled', type: 'boolean', default: false, requiresRestart: true, description: 'Enable IDE integration mode' },
+
+  // Privacy
+  {
+    path: 'privacy.usageStatisticsEnabled',
+    type: 'boolean',
+    default: true,
+    requiresRestart: true,
+    description: 'Enable collection of usage statistics',
+  },
+
+  // Model
+  { path: 'model.name', type: 'string', note: 'Model changes will apply to new conversations', description: 'The Gemini model to use for conversations' },
+  {
+    path: 'model.maxSessionTurns',
+    type: 'number',
+    default: -1,
+    min: -1,
+    integer: true,
+    note: 'Model changes will apply to new conversations',
+    description: 'Maximum number of user/model/tool turns to keep in a session (-1 means unlimited)',
+  },
+  { path: 'model.summarizeToolOutput', type: 'object', description: 'Settings for summarizing tool output' },
+  {
+    path: 'model.chatCompression.contextPercentageThreshold',
+    type: 'number',
+    min: 0,
+    max: 1,
+    description: 'Fraction of the context window at which chat history is compressed',
+  },
+  { path: 'model.skipNextSpeakerCheck', type: 'boolean', default: false, description: 'Skip the next speaker check' },
+
+  // Context
+  { path: 'context.fileName', type: ['string', 'array'], description: 'The name of the context file(s) to load' },
+  { path: 'context.importFormat', type: 'enum', enumValues: ['tree', 'flat'], description: 'The format to use when importing memory' },
+  { path: 'context.discoveryMaxDirs', type: 'number', default: 200, min: 1, integer: true, description: 'Maximum number of directories to search for memory' },
+  { path: 'context.includeDirectories', type: 'array', default: [], mergeStrategy: 'concat', description: 'Additional directories to include in the workspace context' },
+  {
+    path: 'context.loadMemoryFromIncludeDirectories',
+    type: 'boolean',
+    default: false,
+    description: 'Whether to load memory files from include directories',
+  },
+  {
+    path: 'context.fileFiltering.respectGitIgnore',
+    type: 'boolean',
+    default: true,
+    requiresRestart: true,
+    description: 'Respect .gitignore files when searching',
+  },
+  {
+    path: 'context.fileFiltering.respectGeminiIgnore',
+    type: 'boolean',
+    default: true,
+    requiresRestart: true,
+    description: 'Respect .geminiignore files when searching',
+  },
+  {
+    path: 'context.fileFiltering.enableRecursiveFileSearch',
+    type: 'boolean',
+    default: true,
+    requiresRestart: true,
+    description: 'Enable recursive file search for @ completions',
+  },
+  { path: 'context.fileFiltering.disableFuzzySearch', type: 'boolean', default: false, requiresRestart: true, description: 'Disable fuzzy search when searching for files' },
+
+  // Tools
+  {
+    path: 'tools.sandbox',
+    type: ['boolean', 'string'],
+    requiresRestart: true,
+    securitySensitive: true,
+    description: 'Sandbox execution environment (true, false, or a sandbox command such as "docker")',
+  },
+  {
+    path: 'tools.shell.enableInteractiveShell',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    description: 'Use node-pty for an interactive shell experience',
+  },
+  { path: 'tools.shell.pager', type: 'string', default: 'cat', description: 'The pager command to use for shell output' },
+  { path: 'tools.shell.showColor', type: 'boolean', default: false, description: 'Show color in shell output' },
+  {
+    path: 'tools.autoAccept',
+    type: 'boolean',
+    default: false,
+    securitySensitive: true,
+    description: 'Automatically accept and execute tool calls that are considered safe',
+  },
+  { path: 'tools.core', type: 'array', requiresRestart: true, description: 'Restrict the set of built-in tools' },
+  {
+    path: 'tools.allowed',
+    type: 'array',
+    requiresRestart: true,
+    securitySensitive: true,
+    description: 'Tool names that bypass the confirmation dialog',
+  },
+  { path: 'tools.exclude', type: 'array', requiresRestart: true, description: 'Tool names to exclude from discovery' },
+  { path: 'tools.discoveryCommand', type: 'string', requiresRestart: true, description: 'Command to run for tool discovery' },
+  { path: 'tools.callCommand', type: 'string', requiresRestart: true, description: 'Command to run for tool calls' },
+  { path: 'tools.useRipgrep', type: 'boolean', default: false, description: 'Use ripgrep for file content search' },
+  { path: 'tools.enableToolOutputTruncation', type: 'boolean', default: true, description: 'Enable truncation of large tool outputs' },
+  {
+    path: 'tools.truncateToolOutputThreshold',
+    type: 'number',
+    default: 4000000,
+    min: 0,
+    integer: true,
+    description: 'Truncate tool output if it is larger than this many characters',
+  },
+  { path: 'tools.truncateToolOutputLines', type: 'number', default: 1000, min: 0, integer: true, description: 'The number of lines to keep when truncating tool output' },
+
+  // MCP
+  { path: 'mcp.serverCommand', type: 'string', requiresRestart: true, description: 'Command to start an MCP server' },
+  { path: 'mcp.allowed', type: 'array', requiresRestart: true, securitySensitive: true, description: 'Allowlist of MCP servers' },
+  { path: 'mcp.excluded', type: 'array', requiresRestart: true, description: 'Denylist of MCP servers' },
+  { path: 'mcpServers', type: 'object', default: {}, mergeStrategy: 'shallow', requiresRestart: true, description: 'Configuration for MCP servers' },
+  { path: 'mcpServers.*', type: 'object', schema: mcpServerSchema, requiresRestart: true, description: 'A single MCP server definition' },
+  {
+    path: 'mcpServers.*.trust',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    securitySensitive: true,
+    description: 'Bypass all tool call confirmations for this server',
+  },
+
+  // Security
+  {
+    path: 'security.folderTrust.enabled',
+    type: 'boolean',
+    default: false,
+    requiresRestart: true,
+    securitySensitive: true,
+    description: 'Track whether folder trust is enabled',
+  },
+  { path: 'security.auth.selectedType', type: 'string', requiresRestart: true, description: 'The currently selected authentication type' },
+  { path: 'security.auth.enforcedType', type: 'string', requiresRestart: true, securitySensitive: true, description: 'The required auth type' },
+  { path: 'security.auth.useExternal', type: 'boolean', requiresRestart: true, description: 'Whether to use an external authentication flow' },
+
+  // Advanced
+  { path: 'advanced.autoConfigureMemory', type: 'boolean', default: false, requiresRestart: true, description: 'Automatically configure Node.js memory limits' },
+  {
+    path: 'advanced.dnsResolutionOrder',
+    type: 'enum',
+    enumValues: ['ipv4first', 'verbatim'],
+    requiresRestart: true,
+    description: 'The DNS resolution order',
+  },
+  { path: 'advanced.excludedEnvVars', type: 'array', default: ['DEBUG', 'DEBUG_MODE'], mergeStrategy: 'union', description: 'Environment variables to exclude from project context' },
+  { path: 'advanced.bugCommand', type: 'object', description: 'Configuration for the bug report command' },
+
+  // Experimental
+  {
+    path: 'experimental.extensionManagement',
+    type: 'boolean',
+    default: true,
+    requiresRestart: true,
+    experimental: true,
+    description: 'Enable extension management features',
+  },
+  { path: 'experimental.useModelRouter', type: 'boolean', default: false, requiresRestart: true, experimental: true, description: 'Enable model routing' },
+
+  // Extensions
+  { path: 'extensions.disabled', type: 'array', default: [], mergeStrategy: 'union', requiresRestart: true, description: 'List of disabled extensions' },
+
+  // Telemetry
+  { path: 'telemetry.enabled', type: 'boolean', default: false, requiresRestart: true, description: 'Enable telemetry' },
+  { path: 'telemetry.target', type: 'enum', enumValues: ['local', 'gcp'], requiresRestart: true, description: 'Telemetry target' },
+  { path: 'telemetry.otlpEndpoint', type: 'string', requiresRestart: true, description: 'OTLP collector endpoint' },
+  { path: 'telemetry.logPrompts', type: 'boolean', default: true, requiresRestart: true, description: 'Include prompts in telemetry logs' },
+];
+
+/**
+ * Top-level keys of the legacy flat settings format and the nested path that replaced each of them
+ */
+export const LEGACY_SETTINGS: Record<string, string> = {
+  accessibility: 'ui.accessibility',
+  allowedTools: 'tools.allowed',
+  allowMCPServers: 'mcp.allowed',
+  autoAccept: 'tools.autoAccept',
+  autoConfigureMaxOldSpaceSize: 'advanced.autoConfigureMemory',
+  bugCommand: 'advanced.bugCommand',
+  chatCompression: 'model.chatCompression',
+  checkpointing: 'general.checkpointing',
+  contextFileName: 'context.fileName',
+  coreTools: 'tools.core',
+  customThemes: 'ui.customThemes',
+  customWittyPhrases: 'ui.customWittyPhrases',
+  debugKeystrokeLogging: 'general.debugKeystrokeLogging',
+  disableAutoUpdate: 'general.disableAutoUpdate',
+  disableUpdateNag: 'general.disableUpdateNag',
+  dnsResolutionOrder: 'advanced.dnsResolutionOrder',
+  enablePromptCompletion: 'general.enablePromptCompletion',
+  enforcedAuthType: 'security.auth.enforcedType',
+  excludeMCPServers: 'mcp.excluded',
+  excludeTools: 'tools.exclude',
+  excludedProjectEnvVars: 'advanced.excludedEnvVars',
+  extensionManagement: 'experimental.extensionManagement',
+  fileFiltering: 'context.fileFiltering',
+  folderTrust: 'security.folderTrust.enabled',
+  hideBanner: 'ui.hideBanner',
+  hideContextSummary: 'ui.hideContextSummary',
+  hideFooter: 'ui.hideFooter',
+  hideTips: 'ui.hideTips',
+  hideWindowTitle: 'ui.hideWindowTitle',
+  ideMode: 'ide.enabled',
+  includeDirectories: 'context.includeDirectories',
+  loadMemoryFromIncludeDirectories: 'context.loadMemoryFromIncludeDirectories',
+  maxSessionTurns: 'model.maxSessionTurns',
+  mcpServerCommand: 'mcp.serverCommand',
+  memoryDiscoveryMaxDirs: 'context.discoveryMaxDirs',
+  memoryImportFormat: 'context.importFormat',
+  model: 'model.name',
+  preferredEditor: 'general.preferredEditor',
+  sandbox: 'tools.sandbox',
+  selectedAuthType: 'security.auth.selectedType',
+  shellPager: 'tools.shell.pager',
+  shellShowColor: 'tools.shell.showColor',
+  shouldUseNodePtyShell: 'tools.shell.enableInteractiveShell',
+  showCitations: 'ui.showCitations',
+  showLineNumbers: 'ui.showLineNumbers',
+  showMemoryUsage: 'ui.showMemoryUsage',
+  skipNextSpeakerCheck: 'model.skipNextSpeakerCheck',
+  summarizeToolOutput: 'model.summarizeToolOutput',
+  theme: 'ui.theme',
+  toolCallCommand: 'tools.callCommand',
+  toolDiscoveryCommand: 'tools.discoveryCommand',
+  usageStatisticsEnabled: 'privacy.usageStatisticsEnabled',
+  useExternalAuth: 'security.auth.useExternal',
+  useRipgrep: 'tools.useRipgrep',
+  vimMode: 'general.vimMode',
+};
+
+/**
+ * The nested path replacing a legacy top-level key holding this value, if it is one.
+ * "model" is only legacy when it holds the model name instead of the model settings group.
+ */
+export function getLegacySettingTarget(key: string, value?: unknown): string | undefined {
+  if (!Object.hasOwn(LEGACY_SETTINGS, key)) {
+    return undefined;
+  }
+  if (key === 'model' && value !== undefined && typeof value !== 'string') {
+    return undefined;
+  }
+  return LEGACY_SETTINGS[key];
+}
+
+/**
+ * Check whether a registry path (which may contain `*` segments) matches a concrete path
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const patternParts = pattern.split('.');
+  const pathParts = path.split('.');
+
+  if (patternParts.length !== pathParts.length) {
+    return false;
+  }
+
+  return patternParts.every((part, i) => part === '*' || part === pathParts[i]);
+}
+
+/**
+ * Find the registry definition for a concrete settings path
+ */
+export function findSetting(path: string): SettingDefinition | undefined {
+  return (
+    SETTINGS_REGISTRY.find((def) => def.path === path) ??
+    SETTINGS_REGISTRY.find((def) => def.path.includes('*') && matchesPattern(def.path, path))
+  );
+}
+
+/**
+ * Whether a path is a parent of known settings (e.g. "ui" or "model.chatCompression")
+ */
+function isSettingsGroup(path: string): boolean {
+  return SETTINGS_REGISTRY.some((def) => {
+    const parts = def.path.split('.');
+    const pathParts = path.split('.');
+    return parts.length > pathParts.length && matchesPattern(parts.slice(0, pathParts.length).join('.'), path);
+  });
+}
+
+/**
+ * Find the closest object-typed ancestor setting for a path nested inside it
+ * (e.g. "mcpServers.foo.env.API_KEY" lives under "mcpServers.*")
+ */
+function findObjectAncestor(path: string): { path: string; def: SettingDefinition } | undefined {
+  const parts = path.split('.');
+  for (let i = parts.length - 1; i > 0; i--) {
+    const ancestor = parts.slice(0, i).join('.');
+    const def = findSetting(ancestor);
+    if (def) {
+      const types = Array.isArray(def.type) ? def.type : [def.type];
+      return types.includes('object') ? { path: ancestor, def } : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the closest ancestor of a path whose setting has a full schema
+ * (e.g. "mcpServers.foo" for "mcpServers.foo.url"), so a nested edit can be checked against the whole value
+ */
+export function findSchemaAncestor(path: string): string | undefined {
+  const ancestor = findObjectAncestor(path);
+  return ancestor?.def.schema ? ancestor.path : undefined;
+}
+
+/**
+ * Whether a path is known to the registry, either directly, as a group, or nested in an object setting
+ */
+export function isKnownSetting(path: string): boolean {
+  return findSetting(path) !== undefined || isSettingsGroup(path) || findObjectAncestor(path) !== undefined;
+}
+
+/**
+ * Build a zod schema for a single setting type
+ */
+function schemaForType(def: SettingDefinition, type: SettingType): z.ZodTypeAny {
+  switch (type) {
+    case 'boolean':
+      return z.boolean();
+    case 'string':
+      return z.string();
+    case 'number': {
+      let schema = z.number();
+      if (def.integer) schema = schema.int();
+      if (def.min !== undefined) schema = schema.min(def.min);
+      if (def.max !== undefined) schema = schema.max(def.max);
+      return schema;
+    }
+    case 'enum':
+      return z.enum((def.enumValues ?? []) as [string, ...string[]]);
+    case 'array':
+      return z.array(z.unknown());
+    case 'object':
+      return z.record(z.unknown());
+  }
+}
+
+/**
+ * Build a zod schema for a setting definition
+ */
+export function schemaForSetting(def: SettingDefinition): z.ZodTypeAny {
+  if (def.schema) {
+    return def.schema;
+  }
+
+  const types = Array.isArray(def.type) ? def.type : [def.type];
+  const schemas = types.map((type) => schemaForType(def, type));
+  return schemas.length === 1 ? schemas[0] : z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Coerce string input (as produced by the natural language parser) into the setting's type
+ */
+function coerceValue(def: SettingDefinition, value: unknown): unknown {
+  const types = Array.isArray(def.type) ? def.type : [def.type];
+
+  if (typeof value === 'string') {
+    const lower = value.trim().toLowerCase();
+
+    if (types.includes('boolean')) {
+      if (['true', 'yes', 'on'].includes(lower)) return true;
+      if (['false', 'no', 'off'].includes(lower)) return false;
+    }
+
+    if (types.includes('number') && /^-?\d+(\.\d+)?$/.test(lower)) {
+      return parseFloat(lower);
+    }
+
+    if (types.includes('enum') && def.enumValues) {
+      const match = def.enumValues.find((v) => v.toLowerCase() === lower);
+      if (match) return match;
+    }
+  }
+
+  return value;
+}
+
+/**
+ * Describe the accepted values for a setting in a human-readable way
+ */
+export function describeSettingType(def: SettingDefinition): string {
+  const types = Array.isArray(def.type) ? def.type : [def.type];
+
+  return types
+    .map((type) => {
+      if (type === 'enum') return `one of ${(def.enumValues ?? []).map((v) => `"${v}"`).join(', ')}`;
+      if (type === 'number') {
+        const kind = def.integer ? 'an integer' : 'a number';
+        if (def.min !== undefined && def.max !== undefined) return `${kind} between ${def.min} and ${def.max}`;
+        if (def.min !== undefined) return `${kind} >= ${def.min}`;
+        if (def.max !== undefined) return `${kind} <= ${def.max}`;
+        return kind;
+      }
+      return type === 'array' || type === 'object' ? `an ${type}` : `a ${type}`;
+    })
+    .join(' or ');
+}
+
+/**
+ * Validate (and coerce) a value for a settings path.
+ * Unknown paths are accepted unchanged; callers decide whether to warn about them.
+ */
+export function validateSettingValue(
+  path: string,
+  value: unknown
+): { success: true; value: unknown } | { success: false; error: string } {
+  const def = findSetting(path);
+
+  if (!def) {
+    if (isSettingsGroup(path) && (typeof value !== 'object' || value === null || Array.isArray(value))) {
+      return { success: false, error: `Invalid value for ${path}: expected an object, got ${JSON.stringify(value)}` };
+    }
+    return { success: true, value };
+  }
+
+  const coerced = coerceValue(def, value);
+  const result = validateSchema(schemaForSetting(def), coerced);
+
+  if (!result.success) {
+    return {
+      success: false,
+      error: def.schema
+        ? `Invalid value for ${path}: ${result.error}`
+        : `Invalid value for ${path}: expected ${describeSettingType(def)}, got ${JSON.stringify(value)}`,
+    };
+  }
+
+  return { success: true, value: result.data };
+}
+
+/**
+ * Collect warnings for a settings path from its registry metadata
+ */
+export function getSettingWarnings(path: string): string[] {
+  const warnings: string[] = [];
+  const def = findSetting(path) ?? findObjectAncestor(path)?.def;
+
+  if (!def) {
+    const legacyTarget = getLegacySettingTarget(path);
+    if (legacyTarget && !isSettingsGroup(path)) {
+      warnings.push(`Setting ${path} uses the legacy flat format; Gemini CLI now reads ${legacyTarget}`);
+    } else if (!isSettingsGroup(path)) {
+      warnings.push(`Setting ${path} is not a known Gemini CLI setting`);
+    }
+    return warnings;
+  }
+
+  if (def.experimental) {
+    warnings.push(`Setting ${path} is experimental and may change in future versions`);
+  }
+
+  if (def.securitySensitive) {
+    warnings.push(`Setting ${path} has security implications`);
+  }
+
+  if (def.requiresRestart) {
+    warnings.push(`Changing ${path} requires restarting Gemini CLI`);
+  }
+
+  if (def.note) {
+    warnings.push(def.note);
+  }
+
+  return warnings;
+}
+
+/**
+ * Get the merge strategy used when combining a setting across settings files
+ */
+export function getMergeStrategy(path: string): MergeStrategy {
+  return findSetting(path)?.mergeStrategy ?? 'replace';
+}
+
+/**
+ * Whether a setting turns its feature on when true ("positive", e.g. general.vimMode)
+ * or off ("negative", e.g. ui.hideBanner, general.disableAutoUpdate)
+ */
+export type SettingPolarity = 'positive' | 'negative';
+
+const NEGATIVE_SETTING_NAME = /^(hide|disable|skip)[A-Z]/;
+
+/**
+ * Get the polarity of a setting from its name
+ */
+export function getSettingPolarity(path: string): SettingPolarity {
+  return NEGATIVE_SETTING_NAME.test(path.split('.').pop() ?? '') ? 'negative' : 'positive';
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { resolveSettingName } from './resolver.js';
+
+// Synthetic aliases make the scores exact: one edit in 20 characters costs 0.05
+const A = 'a'.repeat(20);
+const typo = (kept: number, other = 'b') => 'a'.repeat(kept) + other.repeat(20 - kept);
+
+describe('resolveSettingName', () => {
+  it.each([
+    ['hideBaner', 'ui.hideBanner'],
+    ['preferedEditor', 'general.preferredEditor'],
+    ['usage statistcs', 'privacy.usageStatisticsEnabled'],
+  ])('accepts the typo %s', (setting, path) => {
+    expect(resolveSettingName(setting, {})).toEqual({ path, suggestions: [], match: 'fuzzy' });
+  });
+
+  it('accepts a fuzzy match scoring at least 0.8', () => {
+    expect(resolveSettingName(typo(16), { [A]: 'ui.theme' })).toEqual({ path: 'ui.theme', suggestions: [], match: 'fuzzy' });
+  });
+
+  it('only suggests a fuzzy match scoring below 0.8', () => {
+    expect(resolveSettingName(typo(15), { [A]: 'ui.theme' })).toEqual({
+      path: null,
+      suggestions: ['ui.theme'],
+      match: 'none',
+    });
+  });
+
+  it('does not accept a match when the runner-up scores within 0.1', () => {
+    const aliases = { [A]: 'ui.theme', [typo(18, 'c')]: 'general.vimMode' };
+    // 0.95 against 0.9
+    expect(resolveSettingName(typo(19), aliases)).toEqual({
+      path: null,
+      suggestions: ['ui.theme', 'general.vimMode'],
+      match: 'none',
+    });
+  });
+
+  it('accepts the best match when the runner-up trails by more than 0.1', () => {
+    const aliases = { [A]: 'ui.theme', [typo(16, 'c')]: 'general.vimMode' };
+    // 0.95 against 0.8
+    expect(resolveSettingName(typo(19), aliases)).toMatchObject({ path: 'ui.theme', match: 'fuzzy' });
+  });
+
+  it('suggests paths scoring at least 0.45 and drops weaker ones', () => {
+    expect(resolveSettingName(typo(10), { [A]: 'ui.theme' }).suggestions).toContain('ui.theme');
+    expect(resolveSettingName(typo(8), { [A]: 'ui.theme' }).suggestions).not.toContain('ui.theme');
+  });
+
+  it('returns ranked suggestions for a vague name and none for gibberish', () => {
+    expect(resolveSettingName('show', {})).toEqual({
+      path: null,
+      suggestions: ['tools.shell.showColor', 'ui.showCitations', 'ui.showLineNumbers'],
+      match: 'none',
+    });
+    expect(resolveSettingName('zzzz', {})).toEqual({ path: null, suggestions: [], match: 'none' });
+  });
+});
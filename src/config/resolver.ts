@@ -0,0 +1,168 @@
+/**
+ * Fuzzy resolution of setting names to configuration paths
+ */
+
+import { SETTINGS_REGISTRY, isKnownSetting } from './registry.js';
+
+export interface SettingResolution {
+  path: string | null;
+  // Ranked candidate paths when the name was not matched exactly
+  suggestions: string[];
+  // How the name was matched
+  match: 'alias' | 'path' | 'fuzzy' | 'none';
+}
+
+interface Candidate {
+  path: string;
+  compact: string;
+  tokens: string[];
+}
+
+// Minimum score for a fuzzy match to be accepted without asking
+const ACCEPT_SCORE = 0.8;
+// A fuzzy match is ambiguous if another path scores within this margin
+const AMBIGUITY_MARGIN = 0.1;
+// Minimum score for a path to be offered as a suggestion
+const SUGGEST_SCORE = 0.45;
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Split a name into lowercase word tokens, handling camelCase, dots, dashes and spaces
+ */
+export function tokenize(name: string): string[] {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function compact(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - editDistance(a, b) / longest;
+}
+
+/**
+ * Fraction of the input tokens that (approximately) appear in the candidate tokens
+ */
+function tokenOverlap(input: string[], candidate: string[]): number {
+  if (input.length === 0) {
+    return 0;
+  }
+
+  const matched = input.filter((token) =>
+    candidate.some((c) => c === token || (token.length > 3 && similarity(token, c) >= 0.75))
+  );
+  return matched.length / input.length;
+}
+
+/**
+ * Build the fuzzy-match candidates from the registry and the alias table
+ */
+function buildCandidates(aliases: Record<string, string>): Candidate[] {
+  const candidates: Candidate[] = [];
+
+  for (const def of SETTINGS_REGISTRY) {
+    if (def.path.includes('*')) {
+      continue;
+    }
+    const leaf = def.path.split('.').pop() ?? def.path;
+    candidates.push({ path: def.path, compact: compact(leaf), tokens: tokenize(def.path) });
+    candidates.push({ path: def.path, compact: compact(def.path), tokens: tokenize(def.path) });
+  }
+
+  for (const [alias, path] of Object.entries(aliases)) {
+    candidates.push({ path, compact: alias, tokens: tokenize(path) });
+  }
+
+  return candidates;
+}
+
+/**
+ * Rank all known paths by how well they match a setting name
+ */
+function rankPaths(setting: string, aliases: Record<string, string>): Array<{ path: string; score: number }> {
+  const input = compact(setting);
+  const inputTokens = tokenize(setting);
+  const best = new Map<string, number>();
+
+  for (const candidate of buildCandidates(aliases)) {
+    const score = Math.max(similarity(input, candidate.compact), tokenOverlap(inputTokens, candidate.tokens) * 0.95);
+    if (score > (best.get(candidate.path) ?? 0)) {
+      best.set(candidate.path, score);
+    }
+  }
+
+  return Array.from(best.entries())
+    .map(([path, score]) => ({ path, score }))
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+}
+
+/**
+ * Resolve a setting name (alias, literal dotted path, or approximate name) to a configuration path.
+ * Ambiguous or weak fuzzy matches return no path and a ranked list of suggestions instead of guessing.
+ */
+export function resolveSettingName(setting: string, aliases: Record<string, string>): SettingResolution {
+  const trimmed = setting.trim();
+  const normalized = compact(trimmed);
+
+  // Known alias
+  if (aliases[normalized]) {
+    return { path: aliases[normalized], suggestions: [], match: 'alias' };
+  }
+
+  // Literal dotted path, e.g. "ui.showLineNumbers" or "mcpServers.foo.env"
+  if (/^[\w$-]+(\.[\w$-]+)+$/.test(trimmed)) {
+    const exact = SETTINGS_REGISTRY.find((def) => def.path.toLowerCase() === trimmed.toLowerCase() && !def.path.includes('*'));
+    if (exact) {
+      return { path: exact.path, suggestions: [], match: 'path' };
+    }
+    if (isKnownSetting(trimmed)) {
+      return { path: trimmed, suggestions: [], match: 'path' };
+    }
+  }
+
+  // Exact (case-insensitive) match on a setting's own name, e.g. "show line numbers"
+  const byLeaf = SETTINGS_REGISTRY.filter(
+    (def) => !def.path.includes('*') && compact(def.path.split('.').pop() ?? '') === normalized
+  );
+  if (byLeaf.length === 1) {
+    return { path: byLeaf[0].path, suggestions: [], match: 'path' };
+  }
+
+  const ranked = rankPaths(trimmed, aliases);
+  const suggestions = ranked
+    .filter((r) => r.score >= SUGGEST_SCORE)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((r) => r.path);
+
+  const [top, second] = ranked;
+  if (top && top.score >= ACCEPT_SCORE && (!second || top.score - second.score >= AMBIGUITY_MARGIN)) {
+    return { path: top.path, suggestions: [], match: 'fuzzy' };
+  }
+
+  return { path: null, suggestions, match: 'none' };
+}
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, writeFileSync, readFileSync, rmSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { getFolderTrust, isProjectUntrusted, type TrustRule } from './trust.js';
+import { loadMergedConfig } from './merge.js';
+import { setGeminiFolderTrust } from '../tools/trust.js';
+
+const rule = (path: string, level: TrustRule['level']): TrustRule => ({
+  path,
+  level,
+  appliesTo: level === 'TRUST_PARENT' ? dirname(path) : path,
+});
+
+describe('folder trust', () => {
+  let root: string;
+  let work: string;
+  const saved = { HOME: process.env.HOME, system: process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH };
+
+  const trustFile = () => join(root, 'home', '.gemini', 'trustedFolders.json');
+  const readTrustFile = () => JSON.parse(readFileSync(trustFile(), 'utf-8'));
+  const enableFolderTrust = () =>
+    writeFileSync(join(root, 'home', '.gemini', 'settings.json'), JSON.stringify({ security: { folderTrust: { enabled: true } } }));
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'trust-test-'));
+    work = join(root, 'work');
+    mkdirSync(join(root, 'home', '.gemini'), { recursive: true });
+    mkdirSync(join(work, 'app', '.gemini'), { recursive: true });
+    mkdirSync(join(work, 'lib'), { recursive: true });
+    process.env.HOME = join(root, 'home');
+    process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = join(root, 'system-settings.json');
+  });
+
+  afterEach(() => {
+    process.env.HOME = saved.HOME;
+    if (saved.system === undefined) {
+      delete process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH;
+    } else {
+      process.env.GEMINI_CLI_SYSTEM_SETTINGS_PATH = saved.system;
+    }
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it.each([
+    ['no rule', [], 'unknown', undefined, false],
+    ['its own TRUST_FOLDER rule', [rule('/work/app', 'TRUST_FOLDER')], 'trusted', '/work/app', false],
+    ['a TRUST_FOLDER rule for a parent', [rule('/work', 'TRUST_FOLDER')], 'trusted', '/work', true],
+    ['a sibling TRUST_PARENT rule', [rule('/work/lib', 'TRUST_PARENT')], 'trusted', '/work/lib', true],
+    ['its own DO_NOT_TRUST rule', [rule('/work/app', 'DO_NOT_TRUST')], 'untrusted', '/work/app', false],
+    ['a DO_NOT_TRUST rule for a parent', [rule('/work', 'DO_NOT_TRUST')], 'unknown', undefined, false],
+    [
+      'DO_NOT_TRUST under a trusted parent',
+      [rule('/work', 'TRUST_FOLDER'), rule('/work/app', 'DO_NOT_TRUST')],
+      'trusted',
+      '/work',
+      true,
+    ],
+    [
+      'the most specific of two trusting rules',
+      [rule('/work', 'TRUST_FOLDER'), rule('/work/app', 'TRUST_FOLDER')],
+      'trusted',
+      '/work/app',
+      false,
+    ],
+  ] as const)('resolves a folder with %s', (_, rules, state, rulePath, inherited) => {
+    const status = getFolderTrust('/work/app', [...rules]);
+
+    expect([status.state, status.rule?.path, status.inherited]).toEqual([state, rulePath, inherited]);
+    expect(status.folderTrustEnabled).toBe(false);
+    expect(status.projectSettingsIgnored).toBe(false);
+  });
+
+  it('ignores project settings of an untrusted folder only when folder trust is enabled', async () => {
+    writeFileSync(join(work, 'app', '.gemini', 'settings.json'), JSON.stringify({ ui: { theme: 'Project' } }));
+    await setGeminiFolderTrust({ action: 'do_not_trust', directory: join(work, 'app') });
+
+    expect(isProjectUntrusted(join(work, 'app'))).toBe(false);
+    expect(loadMergedConfig(join(work, 'app')).config.ui).toMatchObject({ theme: 'Project' });
+
+    enableFolderTrust();
+    expect(isProjectUntrusted(join(work, 'app'))).toBe(true);
+    const merged = loadMergedConfig(join(work, 'app'));
+    expect((merged.config.ui as { theme?: string }).theme).not.toBe('Project');
+    expect(merged.ignored).toEqual([
+      expect.objectContaining({ path: 'ui.theme', value: 'Project', reason: 'ignored because folder is untrusted' }),
+    ]);
+  });
+
+  it('records, replaces and removes the rule of a folder, backing up the file it changes', async () => {
+    enableFolderTrust();
+    const app = join(work, 'app');
+
+    const trusted = await setGeminiFolderTrust({ action: 'trust', directory: app });
+    expect(trusted.structuredContent).toMatchObject({ success: true, level: 'TRUST_FOLDER', changed: true, warnings: [] });
+    expect(readTrustFile()).toEqual({ [app]: 'TRUST_FOLDER' });
+
+    const distrusted = await setGeminiFolderTrust({ action: 'do_not_trust', directory: app });
+    expect(distrusted.structuredContent).toMatchObject({ previousLevel: 'TRUST_FOLDER', level: 'DO_NOT_TRUST', changed: true });
+    const backupPath = (distrusted.structuredContent as { backupPath: string }).backupPath;
+    expect(JSON.parse(readFileSync(backupPath, 'utf-8'))).toEqual({ [app]: 'TRUST_FOLDER' });
+
+    const again = await setGeminiFolderTrust({ action: 'do_not_trust', directory: app });
+    expect(again.structuredContent).toMatchObject({ changed: false });
+    expect(again.structuredContent).not.toHaveProperty('backupPath');
+
+    const removed = await setGeminiFolderTrust({ action: 'remove', directory: app });
+    expect(removed.structuredContent).toMatchObject({ previousLevel: 'DO_NOT_TRUST', changed: true, status: { state: 'unknown' } });
+    expect(readTrustFile()).toEqual({});
+  });
+
+  it('warns about rules that stay in effect or reach further than the folder', async () => {
+    enableFolderTrust();
+    writeFileSync(trustFile(), JSON.stringify({ [work]: 'TRUST_FOLDER' }));
+
+    const distrust = await setGeminiFolderTrust({ action: 'do_not_trust', directory: join(work, 'app') });
+    expect((distrust.structuredContent as { warnings: string[] }).warnings).toEqual([
+      `${join(work, 'app')} stays trusted through the TRUST_FOLDER rule for ${work}`,
+    ]);
+
+    const parent = await setGeminiFolderTrust({ action: 'trust_parent', directory: join(work, 'lib') });
+    expect((parent.structuredContent as { warnings: string[] }).warnings).toEqual([
+      `TRUST_PARENT trusts every folder inside ${work}`,
+    ]);
+
+    const remove = await setGeminiFolderTrust({ action: 'remove', directory: join(work, 'app') });
+    expect((remove.structuredContent as { warnings: string[] }).warnings).toEqual([
+      `${join(work, 'app')} is still trusted through the TRUST_FOLDER rule for ${work}`,
+    ]);
+  });
+
+  it('warns that rules have no effect while folder trust is disabled, and writes nothing on a dry run', async () => {
+    const result = await setGeminiFolderTrust({ action: 'trust', directory: join(work, 'app'), dryRun: true });
+
+    expect(result.structuredContent).toMatchObject({
+      changed: true,
+      dryRun: true,
+      status: { state: 'trusted' },
+      warnings: ['Folder trust is disabled (security.folderTrust.enabled), so this rule has no effect yet'],
+    });
+    expect(existsSync(trustFile())).toBe(false);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Gemini CLI trusted folders (~/.gemini/trustedFolders.json)
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, statSync, renameSync, unlinkSync, chmodSync } from 'fs';
+import { join, dirname, resolve, relative, isAbsolute } from 'path';
+import { homedir } from 'os';
+import { randomBytes } from 'crypto';
+import { parseJsonc, updateJsoncText } from './jsonc.js';
+import { loadConfig, loadSystemConfig, backupFile, withConfigWriteLock } from './loader.js';
+import { logger } from '../utils/logger.js';
+
+export const TRUST_LEVELS = ['TRUST_FOLDER', 'TRUST_PARENT', 'DO_NOT_TRUST'] as const;
+
+export type TrustLevel = (typeof TRUST_LEVELS)[number];
+
+// "unknown": no rule applies, Gemini CLI asks on startup and loads project settings meanwhile
+export type TrustState = 'trusted' | 'untrusted' | 'unknown';
+
+export const UNTRUSTED_PROJECT_REASON = 'ignored because folder is untrusted';
+
+export interface TrustRule {
+  // Folder the rule was recorded for
+  path: string;
+  level: TrustLevel;
+  // Folder the rule applies to: the parent for TRUST_PARENT, the folder itself otherwise
+  appliesTo: string;
+}
+
+export interface FolderTrustStatus {
+  directory: string;
+  folderTrustEnabled: boolean;
+  state: TrustState;
+  // Rule that decides the state, if any
+  rule?: TrustRule;
+  // The deciding rule was recorded for a parent folder
+  inherited: boolean;
+  projectSettingsIgnored: boolean;
+  reason: string;
+}
+
+export interface FolderTrustChange {
+  directory: string;
+  trustedFoldersPath: string;
+  previousLevel?: TrustLevel;
+  level?: TrustLevel;
+  changed: boolean;
+  dryRun: boolean;
+  backupPath?: string;
+  status: FolderTrustStatus;
+  warnings: string[];
+}
+
+/**
+ * Get the path to the trusted folders file
+ */
+export function getTrustedFoldersPath(): string {
+  return join(homedir(), '.gemini', 'trustedFolders.json');
+}
+
+function isTrustLevel(value: unknown): value is TrustLevel {
+  return typeof value === 'string' && (TRUST_LEVELS as readonly string[]).includes(value);
+}
+
+function isWithin(directory: string, root: string): boolean {
+  const rel = relative(root, directory);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+function readTrustFile(): Record<string, unknown> {
+  const filePath = getTrustedFoldersPath();
+  if (!existsSync(filePath)) {
+    return {};
+  }
+  const content = readFileSync(filePath, 'utf-8');
+  if (!content.trim()) {
+    return {};
+  }
+  try {
+    return parseJsonc(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load trusted folders from ${filePath}: ${message}`);
+  }
+}
+
+/**
+ * Load the trust rules; entries with an unknown trust level are skipped, as Gemini CLI does
+ */
+export function loadTrustRules(): TrustRule[] {
+  const rules: TrustRule[] = [];
+
+  for (const [path, level] of Object.entries(readTrustFile())) {
+    if (!isTrustLevel(level)) {
+      logger.warn(`Ignoring trusted folder rule for ${path}: unknown trust level ${JSON.stringify(level)}`);
+      continue;
+    }
+    rules.push({ path, level, appliesTo: level === 'TRUST_PARENT' ? dirname(path) : path });
+  }
+
+  return rules.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function folderTrustSetting(config: Record<string, unknown> | null): unknown {
+  const security = config?.security as { folderTrust?: { enabled?: unknown } } | undefined;
+  return security?.folderTrust?.enabled;
+}
+
+/**
+ * Whether folder trust is enabled. Only system and user settings count: a folder can't vouch for itself.
+ */
+export function isFolderTrustEnabled(): boolean {
+  const enabled = [loadSystemConfig('system'), loadConfig('user'), loadSystemConfig('systemDefaults')]
+    .map(folderTrustSetting)
+    .find((value) => value !== undefined);
+  return enabled === true;
+}
+
+/**
+ * Resolve the trust state of a directory the way Gemini CLI does: any TRUST_FOLDER or TRUST_PARENT rule
+ * covering the directory or one of its parents trusts it; otherwise a DO_NOT_TRUST rule for exactly
+ * this directory distrusts it.
+ */
+export function getFolderTrust(directory: string, rules: TrustRule[] = loadTrustRules()): FolderTrustStatus {
+  const target = resolve(directory);
+  const folderTrustEnabled = isFolderTrustEnabled();
+
+  // Most specific trusting rule first
+  const trusting = rules
+    .filter((rule) => rule.level !== 'DO_NOT_TRUST' && isWithin(target, resolve(rule.appliesTo)))
+    .sort((a, b) => b.appliesTo.length - a.appliesTo.length)[0];
+  const distrusting = rules.find((rule) => rule.level === 'DO_NOT_TRUST' && resolve(rule.path) === target);
+
+  const rule = trusting ?? distrusting;
+  const state: TrustState = trusting ? 'trusted' : distrusting ? 'untrusted' : 'unknown';
+  const inherited = rule !== undefined && resolve(rule.path) !== target;
+
+  let reason: string;
+  if (!rule) {
+    reason = 'No trust rule applies to this folder; Gemini CLI asks whether to trust it on startup';
+  } else if (trusting) {
+    reason = inherited
+      ? `Trusted through the ${rule.level} rule for ${rule.path}`
+      : `Trusted by the ${rule.level} rule for this folder`;
+  } else {
+    reason = 'Marked DO_NOT_TRUST';
+  }
+  if (!folderTrustEnabled) {
+    reason += '. Folder trust is disabled (security.folderTrust.enabled), so every folder is treated as trusted';
+  }
+
+  return {
+    directory: target,
+    folderTrustEnabled,
+    state,
+    ...(rule ? { rule } : {}),
+    inherited,
+    projectSettingsIgnored: folderTrustEnabled && state === 'untrusted',
+    reason,
+  };
+}
+
+/**
+ * Whether Gemini CLI ignores the project settings of a directory
+ */
+export function isProjectUntrusted(directory: string): boolean {
+  return getFolderTrust(directory).projectSettingsIgnored;
+}
+
+function writeTrustFile(rules: Record<string, unknown>): void {
+  const filePath = getTrustedFoldersPath();
+  const tempPath = `${filePath}.tmp-${process.pid}-${randomBytes(4).toString('hex')}`;
+
+  try {
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+    const exists = existsSync(filePath);
+    const original = exists ? readFileSync(filePath, 'utf-8') : '';
+    writeFileSync(tempPath, updateJsoncText(original, rules), 'utf-8');
+    if (exists) {
+      chmodSync(tempPath, statSync(filePath).mode);
+    }
+    renameSync(tempPath, filePath);
+    logger.info(`Saved trusted folders to: ${filePath}`);
+  } catch (error) {
+    if (existsSync(tempPath)) {
+      unlinkSync(tempPath);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to save trusted folders: ${message}`);
+  }
+}
+
+/**
+ * Record a trust level for a directory, or remove its rule when level is null.
+ * The trusted folders file is backed up before it is changed.
+ */
+export function setFolderTrust(directory: string, level: TrustLevel | null, dryRun = false): Promise<FolderTrustChange> {
+  const target = resolve(directory);
+  const filePath = getTrustedFoldersPath();
+
+  return withConfigWriteLock(filePath, () => {
+    const current = readTrustFile();
+    const key = Object.keys(current).find((path) => resolve(path) === target) ?? target;
+    const previousLevel = isTrustLevel(current[key]) ? (current[key] as TrustLevel) : undefined;
+    const changed = level === null ? key in current : current[key] !== level;
+
+    const next = { ...current };
+    if (level === null) {
+      delete next[key];
+    } else {
+      next[key] = level;
+    }
+
+    let backupPath: string | null = null;
+    if (changed && !dryRun) {
+      backupPath = backupFile(filePath);
+      writeTrustFile(next);
+    }
+
+    const rules = Object.entries(next)
+      .filter((entry): entry is [string, TrustLevel] => isTrustLevel(entry[1]))
+      .map(([path, value]) => ({ path, level: value, appliesTo: value === 'TRUST_PARENT' ? dirname(path) : path }));
+    const status = getFolderTrust(target, rules);
+
+    const warnings: string[] = [];
+    if (!status.folderTrustEnabled) {
+      warnings.push('Folder trust is disabled (security.folderTrust.enabled), so this rule has no effect yet');
+    }
+    if (level === 'DO_NOT_TRUST' && status.state === 'trusted') {
+      warnings.push(`${target} stays trusted through the ${status.rule?.level} rule for ${status.rule?.path}`);
+    }
+    if (level === null && status.inherited && status.rule) {
+      warnings.push(`${target} is still ${status.state} through the ${status.rule.level} rule for ${status.rule.path}`);
+    }
+    if (level === 'TRUST_PARENT') {
+      warnings.push(`TRUST_PARENT trusts every folder inside ${dirname(target)}`);
+    }
+
+    return {
+      directory: target,
+      trustedFoldersPath: filePath,
+      ...(previousLevel ? { previousLevel } : {}),
+      ...(level ? { level } : {}),
+      changed,
+      dryRun,
+      ...(backupPath ? { backupPath } : {}),
+      status,
+      warnings,
+    };
+  });
+}
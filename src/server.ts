@@ -14,11 +14,87 @@ import {
   configEditorInputSchema,
   configEditorOutputSchema,
 } from './tools/configEditor.js';
+import {
+  setGeminiSetting,
+  settingEditorInputSchema,
+} from './tools/settingEditor.js';
 import {
   queryGeminiConfig,
   configQueryInputSchema,
   configQueryOutputSchema,
 } from './tools/configQuery.js';
+import {
+  manageConfigBackups,
+  configBackupsInputSchema,
+  configBackupsOutputSchema,
+} from './tools/configBackups.js';
+import {
+  undoGeminiConfigChange,
+  redoGeminiConfigChange,
+  configHistoryInputSchema,
+  configHistoryOutputSchema,
+} from './tools/configHistory.js';
+import {
+  listGeminiMcpServers,
+  addGeminiMcpServer,
+  updateGeminiMcpServer,
+  removeGeminiMcpServer,
+  listMcpServersInputSchema,
+  listMcpServersOutputSchema,
+  addMcpServerInputSchema,
+  updateMcpServerInputSchema,
+  removeMcpServerInputSchema,
+  probeGeminiMcpServer,
+  probeMcpServerInputSchema,
+  probeMcpServerOutputSchema,
+} from './tools/mcpServers.js';
+import {
+  listGeminiExtensions,
+  setGeminiExtensionEnabled,
+  listExtensionsInputSchema,
+  listExtensionsOutputSchema,
+  setExtensionEnabledInputSchema,
+} from './tools/extensions.js';
+import {
+  listGeminiCommands,
+  createGeminiCommand,
+  validateGeminiCommand,
+  listCommandsInputSchema,
+  listCommandsOutputSchema,
+  createCommandInputSchema,
+  createCommandOutputSchema,
+  validateCommandInputSchema,
+  validateCommandOutputSchema,
+} from './tools/commands.js';
+import {
+  listContextFiles,
+  addGeminiMemory,
+  contextFilesInputSchema,
+  contextFilesOutputSchema,
+  addMemoryInputSchema,
+  addMemoryOutputSchema,
+} from './tools/context.js';
+import {
+  manageGeminiIgnore,
+  previewGeminiIgnore,
+  geminiIgnoreInputSchema,
+  geminiIgnoreOutputSchema,
+  ignorePreviewInputSchema,
+  ignorePreviewOutputSchema,
+} from './tools/ignore.js';
+import { diffGeminiConfig, configDiffInputSchema, configDiffOutputSchema } from './tools/configDiff.js';
+import { manageGeminiProfiles, profilesInputSchema, profilesOutputSchema } from './tools/profiles.js';
+import { auditGeminiConfig, configAuditInputSchema, configAuditOutputSchema } from './tools/configAudit.js';
+import { migrateGeminiSettings, migrateSettingsInputSchema, migrateSettingsOutputSchema } from './tools/migration.js';
+import {
+  getGeminiFolderTrust,
+  setGeminiFolderTrust,
+  folderTrustInputSchema,
+  folderTrustOutputSchema,
+  setFolderTrustInputSchema,
+  setFolderTrustOutputSchema,
+} from './tools/trust.js';
+import { redactToolResult } from './config/redact.js';
 import {
   updateGeminiDocs,
   updateDocsInputSchema,
@@ -109,17 +185,37 @@ async function main() {
       description:
         'Configure Gemini CLI settings using natural language instructions. ' +
         'Can modify user-wide settings (~/.gemini/settings.json) or project-specific settings (.gemini/settings.json). ' +
-        'Supports instructions like "enable vim mode", "set theme to GitHub", "use model gemini-2.0-flash", etc.',
+        'Supports instructions like "enable vim mode", "set theme to GitHub", "use model gemini-2.0-flash", etc. ' +
+        'Changes that a system settings file overrides are refused, since they would have no effect.',
       inputSchema: configEditorInputSchema,
       outputSchema: configEditorOutputSchema,
     },
     async (params) => {
-      return await configureGeminiCli(params);
+      return redactToolResult(await configureGeminiCli(params), { reveal: params.revealSecrets, projectDir: params.projectDir });
     }
   );
 
   logger.debug('Registered tool: configure_gemini_cli');
 
+  // Register structured setting editor tool
+  server.registerTool(
+    'set_gemini_setting',
+    {
+      title: 'Set Gemini CLI Settings',
+      description:
+        'Apply an explicit list of { path, operation, value } changes to Gemini CLI settings without natural language parsing. ' +
+        'Values are full JSON, so nested objects such as "mcpServers.my-server.env" can be set directly. ' +
+        'Shares dry-run, backup, preview and warnings with configure_gemini_cli.',
+      inputSchema: settingEditorInputSchema,
+      outputSchema: configEditorOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await setGeminiSetting(params), { reveal: params.revealSecrets, projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: set_gemini_setting');
+
   // Register configuration query tool
   server.registerTool(
     'query_gemini_config',
@@ -128,17 +224,437 @@ async function main() {
       description:
         'Query current Gemini CLI configuration settings. ' +
         'Can query specific settings or retrieve the entire configuration. ' +
-        'Supports user, project, or merged scope.',
+        'Supports user, project, system, systemDefaults or merged scope. The merged scope deep-merges defaults, ' +
+        'system defaults, user, project and system settings (system settings override everything else) ' +
+        'and reports which file each effective value came from and which values it shadows. ' +
+        'API keys, tokens and other credentials are redacted unless their paths are listed in revealSecrets.',
       inputSchema: configQueryInputSchema,
       outputSchema: configQueryOutputSchema,
     },
     async (params) => {
-      return await queryGeminiConfig(params);
+      return redactToolResult(await queryGeminiConfig(params), {
+        reveal: params.revealSecrets,
+        valuePath: params.setting ?? '',
+        projectDir: params.projectDir,
+      });
     }
   );
 
   logger.debug('Registered tool: query_gemini_config');
 
+  // Register configuration backup management tool
+  server.registerTool(
+    'manage_gemini_config_backups',
+    {
+      title: 'Manage Gemini CLI Configuration Backups',
+      description:
+        'List, restore and prune the backups created whenever a Gemini CLI settings file is edited. ' +
+        'Listing shows each backup timestamp and a summary of how it differs from the current file. ' +
+        'Restoring backs up the current file first.',
+      inputSchema: configBackupsInputSchema,
+      outputSchema: configBackupsOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await manageConfigBackups(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: manage_gemini_config_backups');
+
+  // Register configuration undo/redo tools
+  server.registerTool(
+    'undo_gemini_config_change',
+    {
+      title: 'Undo Gemini CLI Configuration Change',
+      description:
+        'Undo the most recent configuration change made through this server for the given scope. ' +
+        'Refuses with a conflict report if the affected settings were modified since the change.',
+      inputSchema: configHistoryInputSchema,
+      outputSchema: configHistoryOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await undoGeminiConfigChange(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: undo_gemini_config_change');
+
+  server.registerTool(
+    'redo_gemini_config_change',
+    {
+      title: 'Redo Gemini CLI Configuration Change',
+      description:
+        'Re-apply the most recently undone configuration change for the given scope. ' +
+        'Refuses with a conflict report if the affected settings were modified since the undo.',
+      inputSchema: configHistoryInputSchema,
+      outputSchema: configHistoryOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await redoGeminiConfigChange(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: redo_gemini_config_change');
+
+  // Register configuration diff tool
+  server.registerTool(
+    'diff_gemini_config',
+    {
+      title: 'Diff Gemini CLI Configuration',
+      description:
+        'Compare any two of: user settings, project settings, the merged effective configuration, a settings ' +
+        'backup, or proposed changes applied to a scope. Returns a path-level change list and a unified text diff.',
+      inputSchema: configDiffInputSchema,
+      outputSchema: configDiffOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await diffGeminiConfig(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: diff_gemini_config');
+
+  // Register configuration profile tool
+  server.registerTool(
+    'manage_gemini_profiles',
+    {
+      title: 'Manage Configuration Profiles',
+      description:
+        'Save a subset of settings as a named profile, list profiles, preview applying one as a diff, apply it ' +
+        '(validated and backed up like any other edit), delete it, or export/import it as a JSON file for sharing.',
+      inputSchema: profilesInputSchema,
+      outputSchema: profilesOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await manageGeminiProfiles(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: manage_gemini_profiles');
+
+  // Register security audit tool
+  server.registerTool(
+    'audit_gemini_config',
+    {
+      title: 'Audit Gemini CLI Configuration Security',
+      description:
+        'Scan user, project and effective settings for security risks: trusted MCP servers, auto-accept and ' +
+        'YOLO mode, disabled sandbox, broad tools.allowed entries, plaintext secrets in MCP env/headers, ' +
+        'world-writable settings files, and project settings that grant more than user settings. ' +
+        'Findings have a severity and the result has a pass/fail flag for scripting.',
+      inputSchema: configAuditInputSchema,
+      outputSchema: configAuditOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await auditGeminiConfig(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: audit_gemini_config');
+
+  // Register legacy settings migration tool
+  server.registerTool(
+    'migrate_gemini_settings',
+    {
+      title: 'Migrate Legacy Gemini CLI Settings',
+      description:
+        'Detect legacy flat keys (e.g. "theme", "vimMode", "autoAccept", "sandbox") in user and project settings and ' +
+        'move them to their nested paths (ui.theme, general.vimMode, ...). Conflicts between a legacy key and its ' +
+        'nested path are resolved in favor of the nested value unless conflictResolution is "legacy". ' +
+        'Use dryRun to preview; applying creates a backup like any other edit.',
+      inputSchema: migrateSettingsInputSchema,
+      outputSchema: migrateSettingsOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await migrateGeminiSettings(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: migrate_gemini_settings');
+
+  // Register folder trust tools
+  server.registerTool(
+    'get_gemini_folder_trust',
+    {
+      title: 'Get Gemini CLI Folder Trust',
+      description:
+        'Show whether a folder is trusted by Gemini CLI, which rule in ~/.gemini/trustedFolders.json decides it ' +
+        '(including TRUST_FOLDER/TRUST_PARENT rules inherited from parent folders), whether folder trust is enabled, ' +
+        'and list all trust rules. Gemini CLI ignores the project settings of untrusted folders.',
+      inputSchema: folderTrustInputSchema,
+      outputSchema: folderTrustOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await getGeminiFolderTrust(params));
+    }
+  );
+
+  logger.debug('Registered tool: get_gemini_folder_trust');
+
+  server.registerTool(
+    'set_gemini_folder_trust',
+    {
+      title: 'Set Gemini CLI Folder Trust',
+      description:
+        'Trust a folder, trust its parent folder, mark it as not trusted, or remove its rule in ' +
+        '~/.gemini/trustedFolders.json. The file is backed up before it changes. Use dryRun to preview the resulting trust state.',
+      inputSchema: setFolderTrustInputSchema,
+      outputSchema: setFolderTrustOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await setGeminiFolderTrust(params));
+    }
+  );
+
+  logger.debug('Registered tool: set_gemini_folder_trust');
+
+  // Register MCP server management tools
+  server.registerTool(
+    'list_mcp_servers',
+    {
+      title: 'List MCP Servers',
+      description:
+        'List the MCP servers Gemini CLI will load, with their transport, configuration, ' +
+        'the scope (user or project) each one comes from, and any entries it overrides.',
+      inputSchema: listMcpServersInputSchema,
+      outputSchema: listMcpServersOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await listGeminiMcpServers(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: list_mcp_servers');
+
+  server.registerTool(
+    'add_mcp_server',
+    {
+      title: 'Add MCP Server',
+      description:
+        'Add an MCP server entry under mcpServers. Supports stdio servers (command, args, env, cwd) and ' +
+        'remote servers (url for SSE or httpUrl for streamable HTTP, with headers), plus timeout, trust, ' +
+        'includeTools and excludeTools. The entry is validated before it is saved.',
+      inputSchema: addMcpServerInputSchema,
+      outputSchema: configEditorOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await addGeminiMcpServer(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: add_mcp_server');
+
+  server.registerTool(
+    'update_mcp_server',
+    {
+      title: 'Update MCP Server',
+      description:
+        'Update fields of an existing MCP server entry in the given scope. Fields not provided are kept; ' +
+        'use "unset" to remove fields. Switching transport drops fields of the old transport.',
+      inputSchema: updateMcpServerInputSchema,
+      outputSchema: configEditorOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await updateGeminiMcpServer(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: update_mcp_server');
+
+  server.registerTool(
+    'remove_mcp_server',
+    {
+      title: 'Remove MCP Server',
+      description: 'Remove an MCP server entry from the given scope.',
+      inputSchema: removeMcpServerInputSchema,
+      outputSchema: configEditorOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await removeGeminiMcpServer(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: remove_mcp_server');
+
+  server.registerTool(
+    'probe_mcp_server',
+    {
+      title: 'Probe MCP Server',
+      description:
+        'Health-check a configured MCP server: launch it (stdio) or connect to its URL (SSE/HTTP) the way ' +
+        'Gemini CLI would, within its configured timeout, and report the tools and prompts it exposes, ' +
+        'per-phase timings, and for stdio servers the captured stderr and exit code.',
+      inputSchema: probeMcpServerInputSchema,
+      outputSchema: probeMcpServerOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await probeGeminiMcpServer(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: probe_mcp_server');
+
+  // Register extension management tools
+  server.registerTool(
+    'list_gemini_extensions',
+    {
+      title: 'List Gemini CLI Extensions',
+      description:
+        'List extensions installed in ~/.gemini/extensions and the workspace .gemini/extensions, with their ' +
+        'version, MCP servers, context files and excluded tools. Flags manifest errors, name collisions and ' +
+        'whether each extension is disabled in user or workspace settings.',
+      inputSchema: listExtensionsInputSchema,
+      outputSchema: listExtensionsOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await listGeminiExtensions(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: list_gemini_extensions');
+
+  server.registerTool(
+    'set_gemini_extension_enabled',
+    {
+      title: 'Enable or Disable Gemini CLI Extension',
+      description:
+        'Enable or disable an extension for user or workspace scope by updating extensions.disabled, ' +
+        'like "gemini extensions enable/disable --scope". Warns when the other scope still disables it.',
+      inputSchema: setExtensionEnabledInputSchema,
+      outputSchema: configEditorOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await setGeminiExtensionEnabled(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: set_gemini_extension_enabled');
+
+  // Register custom command tools
+  server.registerTool(
+    'list_gemini_commands',
+    {
+      title: 'List Custom Slash Commands',
+      description:
+        'List custom slash commands from ~/.gemini/commands and .gemini/commands. Subdirectories become ' +
+        'namespaces (git/commit.toml is /git:commit). Each command is validated and project commands that ' +
+        'shadow user commands are flagged.',
+      inputSchema: listCommandsInputSchema,
+      outputSchema: listCommandsOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await listGeminiCommands(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: list_gemini_commands');
+
+  server.registerTool(
+    'create_gemini_command',
+    {
+      title: 'Create Custom Slash Command',
+      description:
+        'Scaffold a custom slash command .toml file from a description (and optionally a full prompt). ' +
+        'The generated file is validated before it is written; existing files are only replaced with overwrite.',
+      inputSchema: createCommandInputSchema,
+      outputSchema: createCommandOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await createGeminiCommand(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: create_gemini_command');
+
+  server.registerTool(
+    'validate_gemini_command',
+    {
+      title: 'Validate Custom Slash Command',
+      description:
+        'Validate a custom command file by name, or TOML content directly: TOML syntax, the required prompt, ' +
+        '{{args}} placeholder usage, !{...} shell injections and shadowing between user and project commands.',
+      inputSchema: validateCommandInputSchema,
+      outputSchema: validateCommandOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await validateGeminiCommand(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: validate_gemini_command');
+
+  // Register context file tools
+  server.registerTool(
+    'list_gemini_context_files',
+    {
+      title: 'List Gemini CLI Context Files',
+      description:
+        'Report which context files (GEMINI.md or the names set in context.fileName) Gemini CLI would load ' +
+        'for a directory, in load order: global ~/.gemini, ancestors up to the project root, subdirectories ' +
+        'and active extensions. Includes sizes and resolves @file.md imports.',
+      inputSchema: contextFilesInputSchema,
+      outputSchema: contextFilesOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await listContextFiles(params));
+    }
+  );
+
+  logger.debug('Registered tool: list_gemini_context_files');
+
+  server.registerTool(
+    'add_gemini_memory',
+    {
+      title: 'Add Gemini CLI Memory',
+      description:
+        'Append a fact to the "Gemini Added Memories" section of the global (~/.gemini/GEMINI.md) or project ' +
+        'context file, the same way /memory add does.',
+      inputSchema: addMemoryInputSchema,
+      outputSchema: addMemoryOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await addGeminiMemory(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: add_gemini_memory');
+
+  // Register ignore file tools
+  server.registerTool(
+    'manage_gemini_ignore',
+    {
+      title: 'Manage .geminiignore',
+      description:
+        "List, add or remove patterns in the project's .geminiignore. Patterns use .gitignore syntax; " +
+        'comments and ordering are preserved.',
+      inputSchema: geminiIgnoreInputSchema,
+      outputSchema: geminiIgnoreOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await manageGeminiIgnore(params), { projectDir: params.projectDir });
+    }
+  );
+
+  logger.debug('Registered tool: manage_gemini_ignore');
+
+  server.registerTool(
+    'preview_gemini_ignore',
+    {
+      title: 'Preview Ignored Files',
+      description:
+        'Show which files and directories Gemini CLI excludes below a directory and the rule responsible, ' +
+        'combining .gitignore and .geminiignore according to context.fileFiltering.respectGitIgnore and ' +
+        'respectGeminiIgnore in the effective configuration.',
+      inputSchema: ignorePreviewInputSchema,
+      outputSchema: ignorePreviewOutputSchema,
+    },
+    async (params) => {
+      return redactToolResult(await previewGeminiIgnore(params));
+    }
+  );
+
+  logger.debug('Registered tool: preview_gemini_ignore');
+
   // Register documentation refresh tool
   server.registerTool(
     'update_gemini_docs',
@@ -170,7 +686,21 @@ async function main() {
   logger.info('Tools available:');
   logger.info('  - search_gemini_docs: Search Gemini CLI documentation');
   logger.info('  - configure_gemini_cli: Edit Gemini CLI configuration');
+  logger.info('  - set_gemini_setting: Edit Gemini CLI configuration with explicit paths and values');
   logger.info('  - query_gemini_config: Query Gemini CLI configuration');
+  logger.info('  - manage_gemini_config_backups: List, restore and prune configuration backups');
+  logger.info('  - undo_gemini_config_change / redo_gemini_config_change: Undo and redo configuration edits');
+  logger.info('  - diff_gemini_config: Compare scopes, backups and proposed changes');
+  logger.info('  - manage_gemini_profiles: Save, apply and share configuration profiles');
+  logger.info('  - audit_gemini_config: Security audit of the configuration');
+  logger.info('  - migrate_gemini_settings: Move legacy flat settings to nested paths');
+  logger.info('  - get_gemini_folder_trust / set_gemini_folder_trust: Inspect and change trusted folders');
+  logger.info('  - list/add/update/remove_mcp_server: Manage MCP server entries');
+  logger.info('  - probe_mcp_server: Health-check a configured MCP server');
+  logger.info('  - list_gemini_extensions / set_gemini_extension_enabled: Inspect and enable/disable extensions');
+  logger.info('  - list/create/validate_gemini_command: Manage custom .toml slash commands');
+  logger.info('  - list_gemini_context_files / add_gemini_memory: Inspect context files and add memories');
+  logger.info('  - manage_gemini_ignore / preview_gemini_ignore: Edit .geminiignore and preview ignored files');
   logger.info('  - update_gemini_docs: Refresh local documentation cache');
 
   // Handle process termination
@@ -0,0 +1,233 @@
+/**
+ * Custom slash command MCP tools
+ */
+
+import { z } from 'zod';
+import { readFileSync, existsSync } from 'fs';
+import {
+  listCustomCommands,
+  createCustomCommand,
+  validateCommandToml,
+  getCommandPath,
+  getCommandsDir,
+} from '../config/commands.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const commandName = z
+  .string()
+  .min(1)
+  .describe('Command name without the leading slash; use ":" (or "/") for namespaces, e.g. "git:commit"');
+
+const scope = z
+  .enum(['user', 'project'])
+  .optional()
+  .default('project')
+  .describe('Where the command lives: "user" (~/.gemini/commands) or "project" (.gemini/commands). Defaults to project.');
+
+const projectDir = configQueryInputSchema.projectDir;
+
+// Input schemas
+export const listCommandsInputSchema = { projectDir };
+
+export const createCommandInputSchema = {
+  name: commandName,
+  description: z.string().min(1).describe('One-line description shown in /help; also seeds the starter prompt'),
+  prompt: z
+    .string()
+    .optional()
+    .describe('Full prompt text. When omitted, a starter prompt using {{args}} is generated from the description.'),
+  scope,
+  overwrite: z.boolean().optional().default(false).describe('Replace an existing command file'),
+  dryRun: z.boolean().optional().default(false).describe('Return the generated file without writing it'),
+  projectDir,
+};
+
+export const validateCommandInputSchema = {
+  name: commandName.optional(),
+  scope,
+  content: z
+    .string()
+    .optional()
+    .describe('TOML content to validate instead of a file, e.g. a draft before saving it'),
+  projectDir,
+};
+
+const validationFields = {
+  description: z.string().optional(),
+  usesArgs: z.boolean(),
+  shellInjections: z.array(z.string()),
+  errors: z.array(z.string()),
+  warnings: z.array(z.string()),
+};
+
+// Output schemas
+export const listCommandsOutputSchema = {
+  projectDir: z.string(),
+  directories: z.object({ user: z.string(), project: z.string() }),
+  commands: z.array(
+    z.object({
+      name: z.string(),
+      scope: z.string(),
+      path: z.string(),
+      shadowedBy: z.string().optional(),
+      ...validationFields,
+    })
+  ),
+};
+
+export const createCommandOutputSchema = {
+  success: z.boolean(),
+  name: z.string(),
+  path: z.string(),
+  projectDir: z.string(),
+  content: z.string(),
+  written: z.boolean(),
+  ...validationFields,
+};
+
+export const validateCommandOutputSchema = {
+  valid: z.boolean(),
+  path: z.string().optional(),
+  projectDir: z.string().optional(),
+  ...validationFields,
+};
+
+/**
+ * Format a tool response
+ */
+function formatOutput(output: Record<string, unknown>, isError = false): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+    structuredContent: output,
+    ...(isError ? { isError: true } : {}),
+  };
+}
+
+/**
+ * Format an unexpected error as a tool response
+ */
+function formatCommandError(action: string, name: string | undefined, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.error(`Custom command ${action} error:`, errorMessage);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          error: errorMessage,
+          ...(name ? { name } : {}),
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * List custom commands with validation results
+ */
+export async function listGeminiCommands(params: { projectDir?: string }): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    const commands = listCustomCommands(projectDir);
+    logger.info(`Listed ${commands.length} custom commands`);
+
+    return formatOutput({
+      projectDir,
+      directories: { user: getCommandsDir('user'), project: getCommandsDir('project', projectDir) },
+      commands,
+    });
+  } catch (error) {
+    return formatCommandError('list', undefined, error);
+  }
+}
+
+/**
+ * Scaffold a new custom command file
+ */
+export async function createGeminiCommand(params: {
+  name: string;
+  description: string;
+  prompt?: string;
+  scope: 'user' | 'project';
+  overwrite?: boolean;
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Create custom command request: ${params.name} (${params.scope})`);
+
+    const result = createCustomCommand({ ...params, projectDir });
+    const success = result.validation.errors.length === 0;
+    const name = params.name.replace(/^\//, '').replace(/\//g, ':');
+
+    return formatOutput(
+      {
+        success,
+        name,
+        path: result.path,
+        projectDir,
+        content: result.content,
+        written: result.written,
+        ...result.validation,
+      },
+      !success
+    );
+  } catch (error) {
+    return formatCommandError('create', params.name, error);
+  }
+}
+
+/**
+ * Validate a command file, or TOML content passed directly
+ */
+export async function validateGeminiCommand(params: {
+  name?: string;
+  scope: 'user' | 'project';
+  content?: string;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    if (params.content !== undefined) {
+      const validation = validateCommandToml(params.content);
+      return formatOutput({ valid: validation.errors.length === 0, ...validation });
+    }
+
+    if (!params.name) {
+      throw new Error('Provide either name or content to validate');
+    }
+
+    const projectDir = resolveProjectDir(params.projectDir);
+    const path = getCommandPath(params.name, params.scope, projectDir);
+    if (!existsSync(path)) {
+      throw new Error(`Command file ${path} does not exist`);
+    }
+
+    // Installed commands are validated as listed, so shadowing is reported too
+    const listed = listCustomCommands(projectDir).find((command) => command.path === path);
+    const validation = listed ?? validateCommandToml(readFileSync(path, 'utf-8'));
+
+    return formatOutput({
+      valid: validation.errors.length === 0,
+      path,
+      projectDir,
+      ...(validation.description !== undefined ? { description: validation.description } : {}),
+      usesArgs: validation.usesArgs,
+      shellInjections: validation.shellInjections,
+      errors: validation.errors,
+      warnings: validation.warnings,
+    });
+  } catch (error) {
+    return formatCommandError('validate', params.name, error);
+  }
+}
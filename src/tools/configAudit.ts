@@ -0,0 +1,84 @@
+/**
+ * Configuration security audit MCP tool
+ */
+
+import { z } from 'zod';
+import { auditConfig, AUDIT_SEVERITIES, type AuditSeverity } from '../config/audit.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const severity = z.enum(['critical', 'high', 'medium', 'low', 'info']);
+
+// Input schema
+export const configAuditInputSchema = {
+  failOn: severity
+    .optional()
+    .default('high')
+    .describe('Lowest severity that makes the audit fail ("passed": false). Defaults to "high".'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+// Output schema
+export const configAuditOutputSchema = {
+  passed: z.boolean(),
+  failOn: severity,
+  projectDir: z.string(),
+  highestSeverity: severity.nullable(),
+  counts: z.object(Object.fromEntries(AUDIT_SEVERITIES.map((level) => [level, z.number()])) as Record<AuditSeverity, z.ZodNumber>),
+  findings: z.array(
+    z.object({
+      rule: z.string(),
+      severity,
+      message: z.string(),
+      recommendation: z.string(),
+      path: z.string().optional(),
+      scope: z.string().optional(),
+      configPath: z.string().optional(),
+    })
+  ),
+};
+
+/**
+ * Run the security audit
+ */
+export async function auditGeminiConfig(params: { failOn?: AuditSeverity; projectDir?: string }): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    const report = auditConfig(params.failOn || 'high', projectDir);
+    const output = {
+      passed: report.passed,
+      failOn: report.failOn,
+      projectDir,
+      highestSeverity: report.highestSeverity,
+      counts: report.counts,
+      findings: report.findings,
+    };
+
+    logger.info(`Config audit: ${report.findings.length} findings, ${report.passed ? 'passed' : 'failed'}`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Config audit error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error: errorMessage }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Configuration backup management MCP tool
+ */
+
+import { z } from 'zod';
+import {
+  loadConfig,
+  getConfigPath,
+  listBackups,
+  readBackup,
+  restoreBackup,
+  pruneBackups,
+  resolveProjectDir,
+  DEFAULT_BACKUP_RETENTION,
+  type ConfigScope,
+} from '../config/loader.js';
+import { parseJsonc } from '../config/jsonc.js';
+import { diffConfigs, summarizeDiff, type ConfigDiffSummary } from '../config/diff.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schema
+export const configBackupsInputSchema = {
+  action: z
+    .enum(['list', 'restore', 'prune'])
+    .describe('"list" backups with a summary of differences, "restore" a backup, or "prune" old backups'),
+  scope: z
+    .enum(['user', 'project'])
+    .optional()
+    .default('user')
+    .describe('Configuration scope: "user" (~/.gemini/settings.json) or "project" (.gemini/settings.json). Defaults to user-wide.'),
+  backupPath: z
+    .string()
+    .optional()
+    .describe('Path of the backup to restore (as returned by the "list" action). Required for "restore".'),
+  keep: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe(
+      `Prune: number of newest backups to keep, whatever their age unless maxAgeDays is also given ` +
+        `(default when neither limit is given: ${DEFAULT_BACKUP_RETENTION.keep})`
+    ),
+  maxAgeDays: z
+    .number()
+    .min(0)
+    .optional()
+    .describe(
+      `Prune: delete backups older than this many days (default when neither limit is given: ` +
+        `${DEFAULT_BACKUP_RETENTION.maxAgeDays})`
+    ),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Prune: report which backups would be deleted without deleting them'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+// Output schema
+export const configBackupsOutputSchema = {
+  action: z.string(),
+  scope: z.string(),
+  configPath: z.string(),
+  projectDir: z.string(),
+  backups: z
+    .array(
+      z.object({
+        path: z.string(),
+        timestamp: z.string(),
+        size: z.number(),
+        diff: z
+          .object({
+            added: z.number(),
+            removed: z.number(),
+            changed: z.number(),
+            paths: z.array(z.string()),
+          })
+          .optional(),
+        error: z.string().optional(),
+      })
+    )
+    .optional(),
+  restoredFrom: z.string().optional(),
+  backupPath: z.string().optional(),
+  removed: z.array(z.string()).optional(),
+  kept: z.number().optional(),
+};
+
+/**
+ * Summarize how a backup differs from the current configuration
+ */
+function describeBackup(
+  backupPath: string,
+  scope: ConfigScope,
+  current: Record<string, unknown> | null,
+  projectDir: string
+): { diff?: ConfigDiffSummary; error?: string } {
+  try {
+    const content = readBackup(backupPath, scope, projectDir);
+    const backupConfig = content.trim() ? parseJsonc(content) : {};
+    return { diff: summarizeDiff(diffConfigs(backupConfig, current)) };
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Execute backup management action
+ */
+export async function manageConfigBackups(params: {
+  action: 'list' | 'restore' | 'prune';
+  scope: ConfigScope;
+  backupPath?: string;
+  keep?: number;
+  maxAgeDays?: number;
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const scope = params.scope || 'user';
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Config backups request: ${params.action} (${scope})`);
+
+    const configPath = getConfigPath(scope, projectDir);
+    let output: Record<string, unknown>;
+
+    switch (params.action) {
+      case 'list': {
+        const current = loadConfig(scope, projectDir);
+        const backups = listBackups(scope, projectDir).map((backup) => ({
+          path: backup.path,
+          timestamp: backup.timestamp,
+          size: backup.size,
+          ...describeBackup(backup.path, scope, current, projectDir),
+        }));
+        output = { action: params.action, scope, configPath, projectDir, backups };
+        break;
+      }
+
+      case 'restore': {
+        if (!params.backupPath) {
+          throw new Error('backupPath is required to restore a backup');
+        }
+        const backupPath = params.backupPath;
+        const result = await restoreBackup(backupPath, scope, projectDir);
+        output = {
+          action: params.action,
+          scope,
+          configPath: result.configPath,
+          projectDir,
+          restoredFrom: result.restoredFrom,
+          ...(result.backupPath ? { backupPath: result.backupPath } : {}),
+        };
+        break;
+      }
+
+      case 'prune': {
+        const result = pruneBackups(
+          scope,
+          { keep: params.keep, maxAgeDays: params.maxAgeDays },
+          projectDir,
+          params.dryRun || false
+        );
+        output = {
+          action: params.action,
+          scope,
+          configPath,
+          projectDir,
+          removed: result.removed.map((b) => b.path),
+          kept: result.kept.length,
+        };
+        break;
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Config backups error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: errorMessage,
+            action: params.action,
+            scope: params.scope,
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
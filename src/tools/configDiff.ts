@@ -0,0 +1,158 @@
+/**
+ * Configuration diff MCP tool
+ */
+
+import { z } from 'zod';
+import { loadConfig, getConfigPath, readBackup, resolveProjectDir, type ConfigScope } from '../config/loader.js';
+import { loadMergedConfig } from '../config/merge.js';
+import { parseJsonc } from '../config/jsonc.js';
+import { applyChangesToConfig } from '../config/editor.js';
+import { diffConfigs, summarizeDiff, stableStringify, unifiedDiff } from '../config/diff.js';
+import type { ConfigChange } from '../config/parser.js';
+import { settingEditorInputSchema } from './settingEditor.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const configSourceSchema = z
+  .object({
+    type: z
+      .enum(['user', 'project', 'merged', 'backup', 'proposed'])
+      .describe(
+        '"user" or "project" settings file, "merged" effective configuration (defaults, system defaults, user, ' +
+          'project and system settings combined), ' +
+          '"backup" file, or "proposed" changes applied to a scope'
+      ),
+    scope: z
+      .enum(['user', 'project'])
+      .optional()
+      .default('user')
+      .describe('For "backup": the scope the backup belongs to. For "proposed": the scope the changes apply to.'),
+    backupPath: z.string().optional().describe('For "backup": path as returned by manage_gemini_config_backups'),
+    changes: settingEditorInputSchema.changes.optional().describe('For "proposed": the changes to apply'),
+  })
+  .describe('A configuration to compare');
+
+type ConfigSource = z.infer<typeof configSourceSchema>;
+
+// Input schema
+export const configDiffInputSchema = {
+  from: configSourceSchema.describe('Configuration to compare from (the "old" side)'),
+  to: configSourceSchema.describe('Configuration to compare to (the "new" side)'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+// Output schema
+export const configDiffOutputSchema = {
+  from: z.string(),
+  to: z.string(),
+  projectDir: z.string(),
+  changes: z.array(
+    z.object({
+      path: z.string(),
+      oldValue: z.any().optional(),
+      newValue: z.any().optional(),
+    })
+  ),
+  summary: z.object({
+    added: z.number(),
+    removed: z.number(),
+    changed: z.number(),
+    paths: z.array(z.string()),
+  }),
+  unifiedDiff: z.string(),
+};
+
+/**
+ * Load the configuration a source refers to, with a label for the diff header
+ */
+function resolveSource(source: ConfigSource, projectDir: string): { label: string; config: Record<string, unknown> } {
+  const scope: ConfigScope = source.scope || 'user';
+
+  switch (source.type) {
+    case 'user':
+    case 'project':
+      return { label: getConfigPath(source.type, projectDir), config: loadConfig(source.type, projectDir) ?? {} };
+
+    case 'merged':
+      return { label: 'merged (effective configuration)', config: loadMergedConfig(projectDir).config };
+
+    case 'backup': {
+      if (!source.backupPath) {
+        throw new Error('backupPath is required for a "backup" source');
+      }
+      const content = readBackup(source.backupPath, scope, projectDir);
+      return { label: source.backupPath, config: content.trim() ? parseJsonc(content) : {} };
+    }
+
+    case 'proposed': {
+      if (!source.changes || source.changes.length === 0) {
+        throw new Error('changes are required for a "proposed" source');
+      }
+      const changes: ConfigChange[] = source.changes.map((change) => ({
+        path: change.path.trim(),
+        operation: change.operation ?? 'set',
+        value: change.value,
+      }));
+      const result = applyChangesToConfig(loadConfig(scope, projectDir), changes);
+      if (result.errors.length > 0) {
+        throw new Error(`Invalid proposed changes: ${result.errors.join('; ')}`);
+      }
+      return { label: `${getConfigPath(scope, projectDir)} (proposed)`, config: result.config };
+    }
+  }
+}
+
+/**
+ * Compare two configurations
+ */
+export async function diffGeminiConfig(params: {
+  from: ConfigSource;
+  to: ConfigSource;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Config diff request: ${params.from.type} -> ${params.to.type}`);
+
+    const from = resolveSource(params.from, projectDir);
+    const to = resolveSource(params.to, projectDir);
+    const changes = diffConfigs(from.config, to.config);
+
+    const output = {
+      from: from.label,
+      to: to.label,
+      projectDir,
+      changes,
+      summary: summarizeDiff(changes),
+      unifiedDiff: unifiedDiff(stableStringify(from.config), stableStringify(to.config), from.label, to.label),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Config diff error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: errorMessage,
+            from: params.from.type,
+            to: params.to.type,
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
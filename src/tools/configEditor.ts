@@ -3,7 +3,9 @@
  */
 
 import { z } from 'zod';
-import { editConfig } from '../config/editor.js';
+import { editConfig, type ConfigEditResult } from '../config/editor.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { configQueryInputSchema } from './configQuery.js';
 import { logger } from '../utils/logger.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
@@ -24,6 +26,8 @@ export const configEditorInputSchema = {
     .optional()
     .default(false)
     .describe('Preview changes without applying them'),
+  projectDir: configQueryInputSchema.projectDir,
+  revealSecrets: configQueryInputSchema.revealSecrets,
 };
 
 // Output schema
@@ -37,11 +41,38 @@ export const configEditorOutputSchema = {
     })
   ),
   configPath: z.string().optional(),
+  projectDir: z.string().optional().describe('Project directory used for project-scope settings'),
   preview: z.string(),
   warnings: z.array(z.string()),
   backupPath: z.string().optional(),
 };
 
+/**
+ * Format a configuration edit result as a tool response
+ */
+export function formatConfigEditResult(result: ConfigEditResult, projectDir?: string): CallToolResult {
+  const output = {
+    success: result.success,
+    changes: result.changes,
+    ...(result.configPath ? { configPath: result.configPath } : {}),
+    ...(projectDir ? { projectDir } : {}),
+    preview: result.preview,
+    warnings: result.warnings,
+    ...(result.backupPath ? { backupPath: result.backupPath } : {}),
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+    structuredContent: output,
+    isError: !result.success,
+  };
+}
+
 /**
  * Execute configuration edit
  */
@@ -49,35 +80,18 @@ export async function configureGeminiCli(params: {
   instruction: string;
   scope: 'user' | 'project';
   dryRun?: boolean;
+  projectDir?: string;
 }): Promise<CallToolResult> {
   try {
-    logger.info(`Config edit request: "${params.instruction}" (${params.scope})`);
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Config edit request: "${params.instruction}" (${params.scope}, project ${projectDir})`);
 
     // Execute the config edit
-    const result = await editConfig(params.instruction, params.scope, params.dryRun || false);
-
-    // Format the response
-    const output = {
-      success: result.success,
-      changes: result.changes,
-      ...(result.configPath ? { configPath: result.configPath } : {}),
-      preview: result.preview,
-      warnings: result.warnings,
-      ...(result.backupPath ? { backupPath: result.backupPath } : {}),
-    };
+    const result = await editConfig(params.instruction, params.scope, params.dryRun || false, projectDir);
 
     logger.info(`Config edit result: ${result.success ? 'success' : 'failed'}`);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(output, null, 2),
-        },
-      ],
-      structuredContent: output,
-      isError: !result.success,
-    };
+    return formatConfigEditResult(result, projectDir);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     logger.error('Config editor error:', errorMessage);
@@ -0,0 +1,135 @@
+/**
+ * Configuration undo/redo MCP tools
+ */
+
+import { z } from 'zod';
+import { undoConfigChange, redoConfigChange, type ConfigHistoryResult } from '../config/editor.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schema (shared by undo and redo)
+export const configHistoryInputSchema = {
+  scope: z
+    .enum(['user', 'project'])
+    .optional()
+    .default('user')
+    .describe('Configuration scope: "user" (~/.gemini/settings.json) or "project" (.gemini/settings.json). Defaults to user-wide.'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Preview changes without applying them'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+// Output schema (shared by undo and redo)
+export const configHistoryOutputSchema = {
+  success: z.boolean(),
+  changes: z.array(
+    z.object({
+      path: z.string(),
+      oldValue: z.any(),
+      newValue: z.any(),
+    })
+  ),
+  configPath: z.string().optional(),
+  projectDir: z.string(),
+  preview: z.string(),
+  warnings: z.array(z.string()),
+  backupPath: z.string().optional(),
+  entryId: z.string().optional(),
+  instruction: z.string().optional(),
+  conflicts: z.array(
+    z.object({
+      path: z.string(),
+      expected: z.any(),
+      actual: z.any(),
+    })
+  ),
+};
+
+/**
+ * Format an undo/redo result as a tool response
+ */
+function formatHistoryResult(result: ConfigHistoryResult, projectDir: string): CallToolResult {
+  const output = {
+    success: result.success,
+    changes: result.changes,
+    ...(result.configPath ? { configPath: result.configPath } : {}),
+    projectDir,
+    preview: result.preview,
+    warnings: result.warnings,
+    ...(result.backupPath ? { backupPath: result.backupPath } : {}),
+    ...(result.entryId ? { entryId: result.entryId } : {}),
+    ...(result.instruction ? { instruction: result.instruction } : {}),
+    conflicts: result.conflicts,
+  };
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify(output, null, 2),
+      },
+    ],
+    structuredContent: output,
+    isError: !result.success,
+  };
+}
+
+/**
+ * Format an unexpected error as a tool response
+ */
+function formatHistoryError(action: string, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.error(`Config ${action} error:`, errorMessage);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          error: errorMessage,
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+/**
+ * Undo the most recent configuration change
+ */
+export async function undoGeminiConfigChange(params: {
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Config undo request (${params.scope})`);
+    return formatHistoryResult(await undoConfigChange(params.scope, params.dryRun || false, projectDir), projectDir);
+  } catch (error) {
+    return formatHistoryError('undo', error);
+  }
+}
+
+/**
+ * Redo the most recently undone configuration change
+ */
+export async function redoGeminiConfigChange(params: {
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Config redo request (${params.scope})`);
+    return formatHistoryResult(await redoConfigChange(params.scope, params.dryRun || false, projectDir), projectDir);
+  } catch (error) {
+    return formatHistoryError('redo', error);
+  }
+}
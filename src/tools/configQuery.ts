@@ -3,7 +3,25 @@
  */
 
 import { z } from 'zod';
-import { loadConfig, configExists, getConfigPath, type ConfigScope } from '../config/loader.js';
+import { existsSync } from 'fs';
+import {
+  loadConfig,
+  loadSystemConfig,
+  configExists,
+  getConfigPath,
+  getSystemConfigPath,
+  resolveProjectDir,
+  type ConfigScope,
+  type SystemScope,
+} from '../config/loader.js';
+import {
+  loadMergedConfig,
+  getProvenanceFor,
+  getNestedValue,
+  type SettingProvenance,
+  type IgnoredSetting,
+} from '../config/merge.js';
+import { collectInterpolations, type EnvInterpolation } from '../config/envVars.js';
 import { logger } from '../utils/logger.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 
@@ -14,10 +32,27 @@ export const configQueryInputSchema = {
     .optional()
     .describe('Specific setting path to query (e.g., "ui.theme", "mcpServers"). Omit to get full config.'),
   scope: z
-    .enum(['user', 'project', 'merged'])
+    .enum(['user', 'project', 'merged', 'system', 'systemDefaults'])
     .optional()
     .default('merged')
-    .describe('Configuration scope: "user", "project", or "merged" (default)'),
+    .describe(
+      'Configuration scope: "user", "project", "merged" (default), or the read-only administrator files ' +
+        '"system" (overrides user and project settings) and "systemDefaults" (below user settings)'
+    ),
+  projectDir: z
+    .string()
+    .optional()
+    .describe(
+      'Project directory whose .gemini/settings.json is the "project" scope. Defaults to the workspace root: ' +
+        'the nearest directory containing .gemini/ or .git, walking up from the server\'s working directory.'
+    ),
+  revealSecrets: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Setting paths whose credentials are shown in plain text, e.g. ["mcpServers.github.env.GITHUB_TOKEN"]. ' +
+        'API keys, tokens and other secret-looking values elsewhere are redacted.'
+    ),
 };
 
 // Output schema
@@ -26,74 +61,109 @@ export const configQueryOutputSchema = {
   source: z.string().optional(),
   exists: z.boolean(),
   configPath: z.string().optional(),
+  projectDir: z.string().describe('Project directory used for project-scope settings'),
+  provenance: z
+    .array(
+      z.object({
+        path: z.string(),
+        value: z.any(),
+        source: z.string(),
+        configPath: z.string().optional(),
+        shadows: z.array(
+          z.object({
+            source: z.string(),
+            configPath: z.string().optional(),
+            value: z.any(),
+          })
+        ),
+        mergedFrom: z.array(z.string()).optional(),
+      })
+    )
+    .optional(),
+  interpolations: z
+    .array(
+      z.object({
+        path: z.string(),
+        raw: z.string(),
+        resolved: z.string(),
+        variables: z.array(z.string()),
+        unresolved: z.array(z.string()),
+      })
+    )
+    .optional()
+    .describe('Values referencing environment variables ($VAR or ${VAR}), with their resolved form'),
+  ignored: z
+    .array(
+      z.object({
+        path: z.string(),
+        value: z.any(),
+        source: z.string(),
+        configPath: z.string().optional(),
+        reason: z.string(),
+      })
+    )
+    .optional()
+    .describe('Settings left out of the merged view, e.g. project settings "ignored because folder is untrusted"'),
 };
 
-/**
- * Get a nested value from an object by path
- */
-function getNestedValue(obj: Record<string, unknown>, path: string): unknown {
-  const parts = path.split('.');
-  let current: any = obj;
-
-  for (const part of parts) {
-    if (current && typeof current === 'object' && part in current) {
-      current = current[part];
-    } else {
-      return undefined;
-    }
-  }
-
-  return current;
-}
-
 /**
  * Execute configuration query
  */
 export async function queryGeminiConfig(params: {
   setting?: string;
-  scope?: 'user' | 'project' | 'merged';
+  scope?: 'user' | 'project' | 'merged' | SystemScope;
+  projectDir?: string;
 }): Promise<CallToolResult> {
   try {
     const scope = params.scope || 'merged';
-    logger.info(`Config query: setting="${params.setting || 'all'}", scope=${scope}`);
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Config query: setting="${params.setting || 'all'}", scope=${scope}, project=${projectDir}`);
 
     let value: unknown;
     let source: string | undefined;
     let configPath: string | undefined;
     let exists = false;
+    let provenance: SettingProvenance[] | undefined;
+    let ignored: IgnoredSetting[] | undefined;
 
     if (scope === 'merged') {
-      // Load both user and project configs and merge them
-      const userConfig = loadConfig('user');
-      const projectConfig = loadConfig('project');
-
-      // Merge configs (project overrides user)
-      const mergedConfig = { ...userConfig, ...projectConfig };
+      // Deep-merge defaults, user and project configs (project overrides user)
+      const merged = loadMergedConfig(projectDir);
 
       if (params.setting) {
-        value = getNestedValue(mergedConfig, params.setting);
+        value = getNestedValue(merged.config, params.setting);
         exists = value !== undefined;
+        provenance = getProvenanceFor(merged.provenance, params.setting);
+        ignored = merged.ignored && getProvenanceFor(merged.ignored, params.setting);
 
         // Determine source
-        if (projectConfig && getNestedValue(projectConfig, params.setting) !== undefined) {
-          source = 'project';
-          configPath = getConfigPath('project');
-        } else if (userConfig && getNestedValue(userConfig, params.setting) !== undefined) {
-          source = 'user';
-          configPath = getConfigPath('user');
-        } else {
+        const sources = new Set(provenance.map((entry) => entry.source));
+        if (sources.size === 0) {
           source = 'default';
+        } else if (sources.size === 1) {
+          source = provenance[0].source;
+          configPath = provenance[0].configPath;
+        } else {
+          source = 'merged';
         }
       } else {
-        value = mergedConfig;
+        value = merged.config;
         exists = true;
         source = 'merged';
+        provenance = merged.provenance;
+        ignored = merged.ignored;
       }
+    } else if (scope === 'system' || scope === 'systemDefaults') {
+      const config = loadSystemConfig(scope);
+      configPath = getSystemConfigPath(scope);
+      exists = existsSync(configPath);
+      value = params.setting && config ? getNestedValue(config, params.setting) : config;
+      source = scope;
     } else {
       // Load specific scope
-      const config = loadConfig(scope as ConfigScope);
-      configPath = getConfigPath(scope as ConfigScope);
-      exists = configExists(scope as ConfigScope);
+      const config = loadConfig(scope as ConfigScope, projectDir);
+      configPath = getConfigPath(scope as ConfigScope, projectDir);
+      exists = configExists(scope as ConfigScope, projectDir);
 
       if (params.setting && config) {
         value = getNestedValue(config, params.setting);
@@ -104,11 +174,18 @@ export async function queryGeminiConfig(params: {
       source = scope;
     }
 
+    // Report both raw and resolved forms of values that reference environment variables
+    const interpolations: EnvInterpolation[] = collectInterpolations(value, params.setting ?? '');
+
     const output = {
       value,
       ...(source ? { source } : {}),
       exists,
       ...(configPath ? { configPath } : {}),
+      projectDir,
+      ...(provenance ? { provenance } : {}),
+      ...(interpolations.length > 0 ? { interpolations } : {}),
+      ...(ignored && ignored.length > 0 ? { ignored } : {}),
     };
 
     logger.info(`Config query result: exists=${exists}, source=${source}`);
@@ -0,0 +1,155 @@
+/**
+ * Context file (GEMINI.md) MCP tools
+ */
+
+import { z } from 'zod';
+import { discoverContextFiles, addMemory, type ContextImport } from '../config/context.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schemas
+export const contextFilesInputSchema = {
+  directory: z
+    .string()
+    .optional()
+    .describe(
+      'Directory Gemini CLI would be started in. Defaults to the workspace root: the nearest directory containing ' +
+        ".gemini/ or .git, walking up from the server's working directory."
+    ),
+};
+
+export const addMemoryInputSchema = {
+  fact: z.string().min(1).describe('The fact to remember, written as a short statement'),
+  scope: z
+    .enum(['user', 'project'])
+    .optional()
+    .default('user')
+    .describe('"user" appends to ~/.gemini/GEMINI.md (like /memory add), "project" to the project context file'),
+  dryRun: z.boolean().optional().default(false).describe('Return the updated file without writing it'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+const contextImportSchema: z.ZodType<ContextImport> = z.lazy(() =>
+  z.object({
+    reference: z.string(),
+    path: z.string(),
+    exists: z.boolean(),
+    size: z.number().optional(),
+    error: z.string().optional(),
+    imports: z.array(contextImportSchema),
+  })
+);
+
+// Output schemas
+export const contextFilesOutputSchema = {
+  directory: z.string(),
+  projectRoot: z.string().nullable(),
+  fileNames: z.array(z.string()),
+  files: z.array(
+    z.object({
+      path: z.string(),
+      source: z.string(),
+      extension: z.string().optional(),
+      size: z.number(),
+      totalSize: z.number(),
+      imports: z.array(contextImportSchema),
+    })
+  ),
+  totalSize: z.number(),
+  truncated: z.boolean(),
+};
+
+export const addMemoryOutputSchema = {
+  success: z.boolean(),
+  path: z.string(),
+  projectDir: z.string(),
+  fact: z.string(),
+  created: z.boolean(),
+  dryRun: z.boolean(),
+  content: z.string().optional(),
+};
+
+/**
+ * Report the context files Gemini CLI would load for a directory
+ */
+export async function listContextFiles(params: { directory?: string }): Promise<CallToolResult> {
+  try {
+    const output = discoverContextFiles(params.directory);
+    logger.info(`Found ${output.files.length} context files for ${output.directory}`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: { ...output },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Context discovery error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error: errorMessage, directory: params.directory }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Append a fact to the memory section of a context file
+ */
+export async function addGeminiMemory(params: {
+  fact: string;
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Add memory request (${params.scope})`);
+
+    const dryRun = params.dryRun || false;
+    const result = addMemory(params.fact, params.scope, dryRun, projectDir);
+    const output = {
+      success: true,
+      path: result.path,
+      projectDir,
+      fact: result.fact,
+      created: result.created,
+      dryRun,
+      ...(dryRun ? { content: result.content } : {}),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Add memory error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: errorMessage, scope: params.scope }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
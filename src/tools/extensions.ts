@@ -0,0 +1,146 @@
+/**
+ * Gemini CLI extension inventory MCP tools
+ */
+
+import { z } from 'zod';
+import { applyConfigChanges } from '../config/editor.js';
+import { getConfigPath, resolveProjectDir } from '../config/loader.js';
+import { listExtensions, getExtensionsDir, planExtensionEnablement } from '../config/extensions.js';
+import { formatConfigEditResult } from './configEditor.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schemas
+export const listExtensionsInputSchema = { projectDir: configQueryInputSchema.projectDir };
+
+export const setExtensionEnabledInputSchema = {
+  name: z.string().min(1).describe('Extension name, as declared in its gemini-extension.json'),
+  enabled: z.boolean().describe('true to enable the extension, false to disable it'),
+  scope: z
+    .enum(['user', 'project'])
+    .optional()
+    .default('user')
+    .describe('Where to record the change: "user" (all workspaces) or "project" (this workspace only). Defaults to user-wide.'),
+  dryRun: z.boolean().optional().default(false).describe('Preview changes without applying them'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+// Output schema for listing
+export const listExtensionsOutputSchema = {
+  projectDir: z.string(),
+  directories: z.object({ user: z.string(), project: z.string() }),
+  extensions: z.array(
+    z.object({
+      name: z.string(),
+      version: z.string().optional(),
+      description: z.string().optional(),
+      scope: z.string(),
+      path: z.string(),
+      active: z.boolean(),
+      disabledIn: z.array(z.string()),
+      mcpServers: z.array(z.string()),
+      contextFiles: z.array(z.object({ name: z.string(), exists: z.boolean() })),
+      excludeTools: z.array(z.string()),
+      shadowedBy: z.string().optional(),
+      errors: z.array(z.string()),
+      warnings: z.array(z.string()),
+    })
+  ),
+};
+
+/**
+ * List installed extensions from user and workspace directories
+ */
+export async function listGeminiExtensions(params: { projectDir?: string }): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    const extensions = listExtensions(projectDir);
+    const output = {
+      projectDir,
+      directories: { user: getExtensionsDir('user'), project: getExtensionsDir('project', projectDir) },
+      extensions,
+    };
+
+    logger.info(`Listed ${extensions.length} extensions`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Extension list error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error: errorMessage }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Enable or disable an extension through extensions.disabled
+ */
+export async function setGeminiExtensionEnabled(params: {
+  name: string;
+  enabled: boolean;
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`${params.enabled ? 'Enable' : 'Disable'} extension request: ${params.name} (${params.scope})`);
+
+    // Plan from extensions.disabled as read under the write lock, so concurrent enable/disable calls keep each other's entries
+    let warnings: string[] = [];
+    const result = await applyConfigChanges(
+      (config) => {
+        const plan = planExtensionEnablement(params.name, params.enabled, params.scope, config, projectDir);
+        warnings = plan.warnings;
+        if (plan.changes.length > 0) {
+          return plan.changes;
+        }
+        return {
+          success: true,
+          changes: [],
+          configPath: getConfigPath(params.scope, projectDir),
+          preview: 'No changes needed',
+          warnings: [],
+        };
+      },
+      params.scope,
+      params.dryRun || false,
+      projectDir
+    );
+    return formatConfigEditResult({ ...result, warnings: [...warnings, ...result.warnings] }, projectDir);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Extension enablement error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: errorMessage,
+            name: params.name,
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * .geminiignore MCP tools
+ */
+
+import { z } from 'zod';
+import { readGeminiIgnore, updateGeminiIgnore, previewIgnoredFiles } from '../config/ignore.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schemas
+export const geminiIgnoreInputSchema = {
+  action: z
+    .enum(['list', 'add', 'remove'])
+    .describe('"list" the patterns in .geminiignore, or "add"/"remove" patterns'),
+  patterns: z
+    .array(z.string())
+    .optional()
+    .describe('Patterns to add or remove, in .gitignore syntax (e.g. "secrets/", "*.log", "!keep.log")'),
+  dryRun: z.boolean().optional().default(false).describe('Return the updated file without writing it'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+export const ignorePreviewInputSchema = {
+  directory: z
+    .string()
+    .optional()
+    .describe(
+      'Directory to preview. Defaults to the workspace root: the nearest directory containing .gemini/ or .git, ' +
+        "walking up from the server's working directory."
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Maximum number of ignored entries to list (default: 200); the total is always reported'),
+};
+
+// Output schemas
+export const geminiIgnoreOutputSchema = {
+  action: z.string(),
+  path: z.string(),
+  projectDir: z.string(),
+  exists: z.boolean().optional(),
+  patterns: z
+    .array(z.object({ line: z.number(), pattern: z.string(), negated: z.boolean() }))
+    .optional(),
+  added: z.array(z.string()).optional(),
+  removed: z.array(z.string()).optional(),
+  skipped: z.array(z.string()).optional(),
+  dryRun: z.boolean().optional(),
+  content: z.string().optional(),
+};
+
+export const ignorePreviewOutputSchema = {
+  root: z.string(),
+  respectGitIgnore: z.boolean(),
+  respectGeminiIgnore: z.boolean(),
+  ignoreFiles: z.array(z.string()),
+  ignored: z.array(
+    z.object({
+      path: z.string(),
+      rule: z.object({ pattern: z.string(), source: z.string() }),
+    })
+  ),
+  ignoredCount: z.number(),
+  scannedCount: z.number(),
+  truncated: z.boolean(),
+};
+
+/**
+ * Read or edit the project's .geminiignore
+ */
+export async function manageGeminiIgnore(params: {
+  action: 'list' | 'add' | 'remove';
+  patterns?: string[];
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`.geminiignore request: ${params.action}`);
+
+    let output: Record<string, unknown>;
+
+    if (params.action === 'list') {
+      const { path, exists, patterns } = readGeminiIgnore(projectDir);
+      output = { action: params.action, path, projectDir, exists, patterns };
+    } else {
+      if (!params.patterns || params.patterns.length === 0) {
+        throw new Error(`patterns is required to ${params.action} patterns`);
+      }
+      const dryRun = params.dryRun || false;
+      const result = updateGeminiIgnore(
+        params.action === 'add' ? params.patterns : [],
+        params.action === 'remove' ? params.patterns : [],
+        dryRun,
+        projectDir
+      );
+      output = {
+        action: params.action,
+        path: result.path,
+        projectDir,
+        added: result.added,
+        removed: result.removed,
+        skipped: result.skipped,
+        dryRun,
+        ...(dryRun ? { content: result.content } : {}),
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('.geminiignore error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error: errorMessage, action: params.action }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Preview which files are excluded below a directory and by which rule
+ */
+export async function previewGeminiIgnore(params: { directory?: string; limit?: number }): Promise<CallToolResult> {
+  try {
+    const output = previewIgnoredFiles(params.directory, params.limit);
+    logger.info(`Ignore preview for ${output.root}: ${output.ignoredCount} of ${output.scannedCount} entries ignored`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: { ...output },
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Ignore preview error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error: errorMessage, directory: params.directory }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
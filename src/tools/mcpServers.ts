@@ -0,0 +1,349 @@
+/**
+ * MCP server management MCP tools
+ */
+
+import { z } from 'zod';
+import { applyConfigChanges, type ConfigEditResult } from '../config/editor.js';
+import {
+  listMcpServers,
+  getMcpServer,
+  findMcpServer,
+  buildMcpServerFields,
+  mergeMcpServer,
+  validateMcpServer,
+  type McpServerFields,
+} from '../config/mcpServers.js';
+import { probeMcpServer, DEFAULT_PROBE_TIMEOUT_MS } from '../config/mcpProbe.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { formatConfigEditResult } from './configEditor.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const serverName = z
+  .string()
+  .regex(/^[A-Za-z0-9_-]+$/, 'Server names may only contain letters, digits, "-" and "_"')
+  .describe('MCP server name (the key under mcpServers)');
+
+const scope = z
+  .enum(['user', 'project'])
+  .optional()
+  .default('user')
+  .describe('Configuration scope: "user" (~/.gemini/settings.json) or "project" (.gemini/settings.json). Defaults to user-wide.');
+
+const dryRun = z.boolean().optional().default(false).describe('Preview changes without applying them');
+
+const projectDir = configQueryInputSchema.projectDir;
+
+// Fields shared by add and update
+const serverFields = {
+  command: z
+    .string()
+    .optional()
+    .describe('stdio transport: executable to launch. A full command line is split shell-style when args is omitted.'),
+  args: z
+    .union([z.array(z.string()), z.string()])
+    .optional()
+    .describe('stdio transport: arguments as an array, or a string parsed with shell quoting rules'),
+  env: z.record(z.string()).optional().describe('stdio transport: environment variables (values may use $VAR or ${VAR})'),
+  cwd: z.string().optional().describe('stdio transport: working directory'),
+  url: z.string().optional().describe('SSE transport: server URL'),
+  httpUrl: z.string().optional().describe('Streamable HTTP transport: server URL'),
+  headers: z.record(z.string()).optional().describe('Remote transports: HTTP headers'),
+  timeout: z.number().int().positive().optional().describe('Request timeout in milliseconds'),
+  trust: z.boolean().optional().describe('Bypass tool call confirmations for this server'),
+  includeTools: z.array(z.string()).optional().describe('Only expose these tools'),
+  excludeTools: z.array(z.string()).optional().describe('Hide these tools'),
+  description: z.string().optional().describe('Human-readable description'),
+};
+
+// Input schemas
+export const listMcpServersInputSchema = { projectDir };
+
+export const addMcpServerInputSchema = {
+  name: serverName,
+  scope,
+  dryRun,
+  projectDir,
+  ...serverFields,
+};
+
+export const updateMcpServerInputSchema = {
+  name: serverName,
+  scope,
+  dryRun,
+  projectDir,
+  ...serverFields,
+  unset: z.array(z.string()).optional().describe('Field names to remove from the server entry'),
+};
+
+export const removeMcpServerInputSchema = {
+  name: serverName,
+  scope,
+  dryRun,
+  projectDir,
+};
+
+export const probeMcpServerInputSchema = {
+  name: serverName,
+  projectDir,
+  timeoutMs: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe(
+      `Overall probe timeout in milliseconds. Defaults to the server's "timeout" setting, or ${DEFAULT_PROBE_TIMEOUT_MS}ms.`
+    ),
+};
+
+// Output schema for listing
+export const listMcpServersOutputSchema = {
+  projectDir: z.string(),
+  servers: z.array(
+    z.object({
+      name: z.string(),
+      scope: z.string(),
+      configPath: z.string().optional(),
+      transport: z.string().nullable(),
+      config: z.record(z.any()),
+      overrides: z.array(
+        z.object({
+          scope: z.string(),
+          configPath: z.string().optional(),
+        })
+      ),
+      errors: z.string().optional(),
+    })
+  ),
+};
+
+const namedItems = z.array(z.object({ name: z.string(), description: z.string().optional() }));
+
+// Output schema for probing
+export const probeMcpServerOutputSchema = {
+  name: z.string(),
+  scope: z.string(),
+  projectDir: z.string(),
+  transport: z.string().nullable(),
+  healthy: z.boolean(),
+  phase: z.string(),
+  timeoutMs: z.number(),
+  durationMs: z.number(),
+  timings: z.record(z.number()),
+  server: z.object({ name: z.string(), version: z.string() }).optional(),
+  capabilities: z.array(z.string()).optional(),
+  tools: namedItems,
+  prompts: namedItems,
+  stderr: z.string().optional(),
+  exitCode: z.number().nullable().optional(),
+  signal: z.string().nullable().optional(),
+  unresolvedEnvVars: z.array(z.string()).optional(),
+  error: z.string().optional(),
+};
+
+type ServerFieldParams = McpServerFields & {
+  name: string;
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+};
+
+/**
+ * Result returned when a server entry is rejected before editing
+ */
+function rejected(message: string): ConfigEditResult {
+  return { success: false, changes: [], configPath: '', preview: `Error: ${message}`, warnings: [message] };
+}
+
+/**
+ * Format an unexpected error as a tool response
+ */
+function formatMcpError(action: string, name: string | undefined, error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  logger.error(`MCP server ${action} error:`, errorMessage);
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: JSON.stringify({
+          success: false,
+          error: errorMessage,
+          ...(name ? { name } : {}),
+        }),
+      },
+    ],
+    isError: true,
+  };
+}
+
+function pickFields(params: ServerFieldParams): McpServerFields {
+  const { name: _name, scope: _scope, dryRun: _dryRun, projectDir: _projectDir, ...fields } = params;
+  return fields;
+}
+
+/**
+ * List configured MCP servers across scopes
+ */
+export async function listGeminiMcpServers(params: { projectDir?: string }): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    const servers = listMcpServers(projectDir);
+    const output = { projectDir, servers };
+
+    logger.info(`Listed ${servers.length} MCP servers`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    return formatMcpError('list', undefined, error);
+  }
+}
+
+/**
+ * Add a new MCP server entry
+ */
+export async function addGeminiMcpServer(params: ServerFieldParams): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Add MCP server request: ${params.name} (${params.scope})`);
+
+    if (getMcpServer(params.name, params.scope, projectDir)) {
+      return formatConfigEditResult(
+        rejected(`MCP server "${params.name}" already exists in ${params.scope} settings; use update_mcp_server instead`)
+      );
+    }
+
+    const server = buildMcpServerFields(pickFields(params));
+    const errors = validateMcpServer(server);
+    if (errors) {
+      return formatConfigEditResult(rejected(`Invalid MCP server "${params.name}": ${errors}`));
+    }
+
+    const result = await applyConfigChanges(
+      [{ path: `mcpServers.${params.name}`, operation: 'set', value: server }],
+      params.scope,
+      params.dryRun || false,
+      projectDir
+    );
+    return formatConfigEditResult(result, projectDir);
+  } catch (error) {
+    return formatMcpError('add', params.name, error);
+  }
+}
+
+/**
+ * Update fields of an existing MCP server entry
+ */
+export async function updateGeminiMcpServer(params: ServerFieldParams & { unset?: string[] }): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Update MCP server request: ${params.name} (${params.scope})`);
+
+    const { unset, ...fieldParams } = params;
+    const updates = buildMcpServerFields(pickFields(fieldParams));
+
+    // Merge into the entry as read under the write lock, so a concurrent edit of the file is not lost
+    const result = await applyConfigChanges(
+      (config) => {
+        const existing = findMcpServer(config, params.name);
+        if (!existing) {
+          return rejected(`MCP server "${params.name}" is not defined in ${params.scope} settings; use add_mcp_server instead`);
+        }
+
+        const server = mergeMcpServer(existing, updates, unset);
+        const errors = validateMcpServer(server);
+        if (errors) {
+          return rejected(`Invalid MCP server "${params.name}": ${errors}`);
+        }
+
+        return [{ path: `mcpServers.${params.name}`, operation: 'set', value: server }];
+      },
+      params.scope,
+      params.dryRun || false,
+      projectDir
+    );
+    return formatConfigEditResult(result, projectDir);
+  } catch (error) {
+    return formatMcpError('update', params.name, error);
+  }
+}
+
+/**
+ * Remove an MCP server entry
+ */
+export async function removeGeminiMcpServer(params: {
+  name: string;
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Remove MCP server request: ${params.name} (${params.scope})`);
+
+    if (!getMcpServer(params.name, params.scope, projectDir)) {
+      return formatConfigEditResult(rejected(`MCP server "${params.name}" is not defined in ${params.scope} settings`));
+    }
+
+    const result = await applyConfigChanges(
+      [{ path: `mcpServers.${params.name}`, operation: 'remove', value: undefined }],
+      params.scope,
+      params.dryRun || false,
+      projectDir
+    );
+    return formatConfigEditResult(result, projectDir);
+  } catch (error) {
+    return formatMcpError('remove', params.name, error);
+  }
+}
+
+/**
+ * Start or connect to a configured MCP server and report its health
+ */
+export async function probeGeminiMcpServer(params: {
+  name: string;
+  timeoutMs?: number;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Probe MCP server request: ${params.name}`);
+
+    const listing = listMcpServers(projectDir).find((server) => server.name === params.name);
+    if (!listing) {
+      throw new Error(`MCP server "${params.name}" is not configured`);
+    }
+    if (listing.errors) {
+      throw new Error(`Invalid MCP server "${params.name}": ${listing.errors}`);
+    }
+
+    const result = await probeMcpServer(params.name, listing.config, { timeoutMs: params.timeoutMs });
+    const output = { ...result, scope: listing.scope, projectDir };
+
+    logger.info(
+      `Probed MCP server ${params.name}: ${result.healthy ? 'healthy' : `failed at ${result.phase}`} in ${result.durationMs}ms`
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+      ...(result.healthy ? {} : { isError: true }),
+    };
+  } catch (error) {
+    return formatMcpError('probe', params.name, error);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Legacy settings migration MCP tool
+ */
+
+import { z } from 'zod';
+import { applyConfigChanges } from '../config/editor.js';
+import { getConfigPath, resolveProjectDir, type ConfigScope } from '../config/loader.js';
+import { planLegacyMigration, type LegacyConflictResolution, type LegacySetting } from '../config/migration.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schema
+export const migrateSettingsInputSchema = {
+  scope: z
+    .enum(['user', 'project', 'all'])
+    .optional()
+    .default('all')
+    .describe('Settings file to migrate: "user", "project", or "all" (default) for both'),
+  conflictResolution: z
+    .enum(['nested', 'legacy'])
+    .optional()
+    .default('nested')
+    .describe(
+      'Which value wins when a legacy key and its nested path are both set: "nested" (default) keeps the nested value, ' +
+        '"legacy" keeps the legacy one. Objects are merged key by key.'
+    ),
+  dryRun: z.boolean().optional().default(false).describe('Preview the migration without applying it'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+// Output schema
+export const migrateSettingsOutputSchema = {
+  success: z.boolean(),
+  projectDir: z.string(),
+  appliedScopes: z.array(z.string()),
+  warning: z.string().optional(),
+  scopes: z.array(
+    z.object({
+      scope: z.string(),
+      configPath: z.string(),
+      applied: z.boolean(),
+      legacySettings: z.array(
+        z.object({
+          key: z.string(),
+          path: z.string(),
+          legacyValue: z.any(),
+          nestedValue: z.any().optional(),
+          conflict: z.boolean(),
+        })
+      ),
+      changes: z.array(
+        z.object({
+          path: z.string(),
+          oldValue: z.any(),
+          newValue: z.any(),
+        })
+      ),
+      preview: z.string(),
+      warnings: z.array(z.string()),
+      backupPath: z.string().optional(),
+    })
+  ),
+};
+
+/**
+ * Migrate legacy flat settings to nested paths in one scope.
+ * The migration is planned from the settings file as read under the write lock, so a concurrent edit
+ * of a nested target is merged or detected rather than overwritten.
+ */
+async function migrateScope(
+  scope: ConfigScope,
+  resolution: LegacyConflictResolution,
+  dryRun: boolean,
+  projectDir: string
+) {
+  const configPath = getConfigPath(scope, projectDir);
+  let legacy: LegacySetting[] = [];
+
+  const result = await applyConfigChanges(
+    (config) => {
+      const plan = planLegacyMigration(config, resolution);
+      legacy = plan.legacy;
+      if (legacy.length > 0) {
+        return plan.changes;
+      }
+      return { success: true, changes: [], configPath, preview: 'No legacy settings found', warnings: [] };
+    },
+    scope,
+    dryRun,
+    projectDir
+  );
+
+  const conflicts = legacy.filter((setting) => setting.conflict);
+  return {
+    success: result.success,
+    entry: {
+      scope,
+      configPath,
+      applied: result.success && !dryRun && result.changes.length > 0,
+      legacySettings: legacy,
+      changes: result.changes,
+      preview: result.preview,
+      warnings: [
+        ...conflicts.map(
+          (setting) =>
+            `"${setting.key}" and ${setting.path} were both set; kept the ${resolution} value` +
+            (resolution === 'nested' ? '' : ` (${setting.path} was ${JSON.stringify(setting.nestedValue)})`)
+        ),
+        ...result.warnings,
+      ],
+      ...(result.backupPath ? { backupPath: result.backupPath } : {}),
+    },
+  };
+}
+
+/**
+ * Detect legacy flat settings and move them to their nested paths
+ */
+export async function migrateGeminiSettings(params: {
+  scope?: ConfigScope | 'all';
+  conflictResolution?: LegacyConflictResolution;
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    const scopes: ConfigScope[] = !params.scope || params.scope === 'all' ? ['user', 'project'] : [params.scope];
+    const resolution = params.conflictResolution || 'nested';
+    logger.info(`Settings migration request: ${scopes.join(', ')} (conflicts: ${resolution})`);
+
+    const results = [];
+    for (const scope of scopes) {
+      results.push(await migrateScope(scope, resolution, params.dryRun || false, projectDir));
+    }
+
+    // Scopes are migrated one at a time, so a failure in one leaves the scopes before it migrated
+    const applied = results.filter((result) => result.entry.applied).map((result) => result.entry.scope);
+    const failed = results.filter((result) => !result.success).map((result) => result.entry.scope);
+    const output = {
+      success: failed.length === 0,
+      projectDir,
+      appliedScopes: applied,
+      ...(failed.length > 0 && applied.length > 0
+        ? {
+            warning:
+              `Partially applied: ${applied.join(' and ')} settings were migrated, ` +
+              `but migrating ${failed.join(' and ')} settings failed and left that file unchanged. ` +
+              'Use undo_gemini_config_change to revert the migrated scope if needed.',
+          }
+        : {}),
+      scopes: results.map((result) => result.entry),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+      ...(output.success ? {} : { isError: true }),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Settings migration error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: errorMessage }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Configuration profile MCP tool
+ */
+
+import { z } from 'zod';
+import { loadConfig, getConfigPath, resolveProjectDir, type ConfigScope } from '../config/loader.js';
+import { applyConfigChanges, applyChangesToConfig } from '../config/editor.js';
+import { diffConfigs, stableStringify, unifiedDiff } from '../config/diff.js';
+import {
+  readProfiles,
+  getProfile,
+  saveProfile,
+  deleteProfile,
+  getProfileChanges,
+  exportProfile,
+  importProfile,
+} from '../config/profiles.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+type ProfileAction = 'save' | 'list' | 'preview' | 'apply' | 'delete' | 'export' | 'import';
+
+// Input schema
+export const profilesInputSchema = {
+  action: z
+    .enum(['save', 'list', 'preview', 'apply', 'delete', 'export', 'import'])
+    .describe(
+      '"save" current values of paths as a profile, "list" profiles, "preview" or "apply" a profile to a scope, ' +
+        '"delete" a profile, "export" it to a JSON file, or "import" one from a JSON file'
+    ),
+  name: z
+    .string()
+    .optional()
+    .describe('Profile name (letters, digits, "-" and "_"). Required except for list and import.'),
+  paths: z
+    .array(z.string())
+    .optional()
+    .describe('Save: setting paths to capture, e.g. ["general.vimMode", "ui.showLineNumbers"]. A group such as "ui" captures every setting in it.'),
+  description: z.string().optional().describe('Save: what the profile is for'),
+  scope: z
+    .enum(['user', 'project'])
+    .optional()
+    .default('user')
+    .describe('Save: scope to read values from. Preview/apply: scope to change. Defaults to user-wide.'),
+  filePath: z.string().optional().describe('Export/import: path of the JSON file'),
+  overwrite: z.boolean().optional().default(false).describe('Save/import: replace an existing profile with the same name. Export: replace an existing file at filePath'),
+  dryRun: z.boolean().optional().default(false).describe('Apply: preview changes without applying them'),
+  projectDir: configQueryInputSchema.projectDir,
+};
+
+const profileOutput = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  createdAt: z.string(),
+  source: z.string().optional(),
+  settings: z.record(z.any()),
+});
+
+// Output schema
+export const profilesOutputSchema = {
+  action: z.string(),
+  success: z.boolean(),
+  profile: profileOutput.optional(),
+  profiles: z.array(profileOutput).optional(),
+  missing: z.array(z.string()).optional(),
+  filePath: z.string().optional(),
+  configPath: z.string().optional(),
+  projectDir: z.string(),
+  changes: z
+    .array(
+      z.object({
+        path: z.string(),
+        oldValue: z.any().optional(),
+        newValue: z.any().optional(),
+      })
+    )
+    .optional(),
+  unifiedDiff: z.string().optional(),
+  preview: z.string().optional(),
+  backupPath: z.string().optional(),
+  warnings: z.array(z.string()).optional(),
+};
+
+function requireParam<T>(value: T | undefined, name: string, action: string): T {
+  if (value === undefined || value === '') {
+    throw new Error(`${name} is required to ${action} a profile`);
+  }
+  return value;
+}
+
+/**
+ * Show what applying a profile would change in a scope
+ */
+function previewProfile(name: string, scope: ConfigScope, projectDir: string): Record<string, unknown> {
+  const profile = getProfile(name);
+  const current = loadConfig(scope, projectDir) ?? {};
+  const result = applyChangesToConfig(current, getProfileChanges(profile, scope, projectDir));
+  if (result.errors.length > 0) {
+    throw new Error(`Profile "${name}" has invalid settings: ${result.errors.join('; ')}`);
+  }
+
+  const configPath = getConfigPath(scope, projectDir);
+  return {
+    profile,
+    configPath,
+    changes: diffConfigs(current, result.config),
+    unifiedDiff: unifiedDiff(stableStringify(current), stableStringify(result.config), configPath, `${configPath} (profile ${name})`),
+  };
+}
+
+/**
+ * Execute a profile action
+ */
+export async function manageGeminiProfiles(params: {
+  action: ProfileAction;
+  name?: string;
+  paths?: string[];
+  description?: string;
+  scope: ConfigScope;
+  filePath?: string;
+  overwrite?: boolean;
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const scope = params.scope || 'user';
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Profile request: ${params.action}${params.name ? ` ${params.name}` : ''}`);
+
+    let output: Record<string, unknown>;
+    let isError = false;
+
+    switch (params.action) {
+      case 'list':
+        output = { action: params.action, success: true, profiles: Object.values(readProfiles()) };
+        break;
+
+      case 'save': {
+        const name = requireParam(params.name, 'name', 'save');
+        const paths = requireParam(params.paths, 'paths', 'save');
+        const result = saveProfile(name, paths, scope, {
+          description: params.description,
+          overwrite: params.overwrite,
+          projectDir,
+        });
+        output = {
+          action: params.action,
+          success: true,
+          profile: result.profile,
+          ...(result.missing.length > 0
+            ? { missing: result.missing, warnings: [`Not set in ${scope} settings, so not saved: ${result.missing.join(', ')}`] }
+            : {}),
+        };
+        break;
+      }
+
+      case 'preview':
+        output = { action: params.action, success: true, ...previewProfile(requireParam(params.name, 'name', 'preview'), scope, projectDir) };
+        break;
+
+      case 'apply': {
+        const name = requireParam(params.name, 'name', 'apply');
+        const profile = getProfile(name);
+        const changes = getProfileChanges(profile, scope, projectDir);
+        if (changes.length === 0) {
+          output = {
+            action: params.action,
+            success: true,
+            profile,
+            configPath: getConfigPath(scope, projectDir),
+            changes: [],
+            preview: `${scope} settings already match profile "${name}"`,
+          };
+          break;
+        }
+
+        const result = await applyConfigChanges(changes, scope, params.dryRun || false, projectDir);
+        isError = !result.success;
+        output = {
+          action: params.action,
+          success: result.success,
+          profile,
+          changes: result.changes,
+          ...(result.configPath ? { configPath: result.configPath } : {}),
+          preview: result.preview,
+          warnings: result.warnings,
+          ...(result.backupPath ? { backupPath: result.backupPath } : {}),
+        };
+        break;
+      }
+
+      case 'delete':
+        output = { action: params.action, success: true, profile: deleteProfile(requireParam(params.name, 'name', 'delete')) };
+        break;
+
+      case 'export': {
+        const name = requireParam(params.name, 'name', 'export');
+        const result = exportProfile(name, requireParam(params.filePath, 'filePath', 'export'), {
+          overwrite: params.overwrite,
+        });
+        output = {
+          action: params.action,
+          success: true,
+          profile: result.profile,
+          filePath: result.filePath,
+          ...(result.warnings.length > 0 ? { warnings: result.warnings } : {}),
+        };
+        break;
+      }
+
+      case 'import': {
+        const filePath = requireParam(params.filePath, 'filePath', 'import');
+        const result = importProfile(filePath, { name: params.name, overwrite: params.overwrite });
+        output = {
+          action: params.action,
+          success: true,
+          profile: result.profile,
+          filePath,
+          ...(result.warnings.length > 0 ? { warnings: result.warnings } : {}),
+        };
+        break;
+      }
+    }
+
+    output = { ...output, projectDir };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+      ...(isError ? { isError: true } : {}),
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Profile error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: errorMessage,
+            action: params.action,
+            ...(params.name ? { name: params.name } : {}),
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Structured setting editor MCP tool
+ */
+
+import { z } from 'zod';
+import { applyConfigChanges } from '../config/editor.js';
+import { resolveProjectDir } from '../config/loader.js';
+import { formatConfigEditResult } from './configEditor.js';
+import type { ConfigChange } from '../config/parser.js';
+import { configQueryInputSchema } from './configQuery.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+// Input schema
+export const settingEditorInputSchema = {
+  changes: z
+    .array(
+      z.object({
+        path: z
+          .string()
+          .min(1)
+          .describe('Dotted setting path (e.g. "ui.theme", "mcpServers.my-server.env")'),
+        operation: z
+          .enum(['set', 'add', 'remove', 'toggle'])
+          .optional()
+          .default('set')
+          .describe('"set" replaces the value, "add" merges into an object or appends to an array, "remove" deletes the key, "toggle" flips a boolean'),
+        value: z
+          .any()
+          .optional()
+          .describe('JSON value for "set" and "add" (any type: string, number, boolean, array or object)'),
+      })
+    )
+    .min(1)
+    .describe('Changes to apply, in order. Applied atomically: if any change is invalid, nothing is saved.'),
+  scope: z
+    .enum(['user', 'project'])
+    .optional()
+    .default('user')
+    .describe('Configuration scope: "user" (~/.gemini/settings.json) or "project" (.gemini/settings.json). Defaults to user-wide.'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Preview changes without applying them'),
+  projectDir: configQueryInputSchema.projectDir,
+  revealSecrets: configQueryInputSchema.revealSecrets,
+};
+
+/**
+ * Execute structured setting changes
+ */
+export async function setGeminiSetting(params: {
+  changes: Array<{ path: string; operation?: ConfigChange['operation']; value?: unknown }>;
+  scope: 'user' | 'project';
+  dryRun?: boolean;
+  projectDir?: string;
+}): Promise<CallToolResult> {
+  try {
+    const projectDir = resolveProjectDir(params.projectDir);
+    logger.info(`Structured config edit request: ${params.changes.length} changes (${params.scope}, project ${projectDir})`);
+
+    const changes: ConfigChange[] = params.changes.map((change) => ({
+      path: change.path.trim(),
+      operation: change.operation ?? 'set',
+      value: change.value,
+    }));
+
+    const result = await applyConfigChanges(changes, params.scope, params.dryRun || false, projectDir);
+
+    logger.info(`Structured config edit result: ${result.success ? 'success' : 'failed'}`);
+
+    return formatConfigEditResult(result, projectDir);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Setting editor error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: false,
+            error: errorMessage,
+          }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
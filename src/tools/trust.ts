@@ -0,0 +1,157 @@
+/**
+ * Trusted folders MCP tools
+ */
+
+import { z } from 'zod';
+import { resolveProjectDir } from '../config/loader.js';
+import {
+  getFolderTrust,
+  loadTrustRules,
+  setFolderTrust,
+  getTrustedFoldersPath,
+  TRUST_LEVELS,
+  type TrustLevel,
+} from '../config/trust.js';
+import { logger } from '../utils/logger.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+const directory = z
+  .string()
+  .optional()
+  .describe('Folder to check or change. Defaults to the workspace root (nearest directory with .gemini/ or .git).');
+
+const trustRule = z.object({
+  path: z.string(),
+  level: z.enum(TRUST_LEVELS),
+  appliesTo: z.string().describe('Folder the rule covers: the parent folder for TRUST_PARENT'),
+});
+
+const trustStatus = z.object({
+  directory: z.string(),
+  folderTrustEnabled: z.boolean(),
+  state: z.enum(['trusted', 'untrusted', 'unknown']),
+  rule: trustRule.optional(),
+  inherited: z.boolean().describe('The deciding rule was recorded for a parent folder'),
+  projectSettingsIgnored: z.boolean(),
+  reason: z.string(),
+});
+
+// Actions and the trust level they record (null removes the folder's rule)
+const ACTIONS: Record<'trust' | 'trust_parent' | 'do_not_trust' | 'remove', TrustLevel | null> = {
+  trust: 'TRUST_FOLDER',
+  trust_parent: 'TRUST_PARENT',
+  do_not_trust: 'DO_NOT_TRUST',
+  remove: null,
+};
+
+// Input schemas
+export const folderTrustInputSchema = {
+  directory,
+};
+
+export const setFolderTrustInputSchema = {
+  action: z
+    .enum(['trust', 'trust_parent', 'do_not_trust', 'remove'])
+    .describe(
+      '"trust" the folder (TRUST_FOLDER), trust its parent and every folder in it (TRUST_PARENT), ' +
+        'mark it "do_not_trust" (DO_NOT_TRUST), or "remove" the folder\'s rule'
+    ),
+  directory,
+  dryRun: z.boolean().optional().default(false).describe('Preview the change without writing trustedFolders.json'),
+};
+
+// Output schemas
+export const folderTrustOutputSchema = {
+  trustedFoldersPath: z.string(),
+  status: trustStatus,
+  rules: z.array(trustRule),
+};
+
+export const setFolderTrustOutputSchema = {
+  success: z.boolean(),
+  directory: z.string(),
+  trustedFoldersPath: z.string(),
+  previousLevel: z.enum(TRUST_LEVELS).optional(),
+  level: z.enum(TRUST_LEVELS).optional(),
+  changed: z.boolean(),
+  dryRun: z.boolean(),
+  backupPath: z.string().optional(),
+  status: trustStatus,
+  warnings: z.array(z.string()),
+};
+
+/**
+ * Show the trust state of a folder and all trust rules
+ */
+export async function getGeminiFolderTrust(params: { directory?: string }): Promise<CallToolResult> {
+  try {
+    const rules = loadTrustRules();
+    const status = getFolderTrust(resolveProjectDir(params.directory), rules);
+    const output = { trustedFoldersPath: getTrustedFoldersPath(), status, rules };
+
+    logger.info(`Folder trust: ${status.directory} is ${status.state}`);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Folder trust error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ error: errorMessage }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Add, change or remove the trust rule of a folder
+ */
+export async function setGeminiFolderTrust(params: {
+  action: keyof typeof ACTIONS;
+  directory?: string;
+  dryRun?: boolean;
+}): Promise<CallToolResult> {
+  try {
+    const target = resolveProjectDir(params.directory);
+    logger.info(`Folder trust change: ${params.action} ${target}${params.dryRun ? ' (dry run)' : ''}`);
+
+    const result = await setFolderTrust(target, ACTIONS[params.action], params.dryRun || false);
+    const output = { success: true, ...result };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(output, null, 2),
+        },
+      ],
+      structuredContent: output,
+    };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logger.error('Folder trust change error:', errorMessage);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({ success: false, error: errorMessage }),
+        },
+      ],
+      isError: true,
+    };
+  }
+}
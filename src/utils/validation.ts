@@ -18,7 +18,7 @@ export function validateSchema<T>(
       return { success: true, data: result.data };
     } else {
       const errorMessage = result.error.errors
-        .map((err) => `${err.path.join('.')}: ${err.message}`)
+        .map((err) => (err.path.length > 0 ? `${err.path.join('.')}: ${err.message}` : err.message))
         .join('; ');
       logger.warn('Validation failed:', errorMessage);
       return { success: false, error: errorMessage };